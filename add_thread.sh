@@ -23,7 +23,7 @@ deno run --allow-all scripts/recorder.ts
 echo "Enriching tweets for thread $id" 
 node ./scripts/tweets_enrichment.js
 
-echo "Generating algolia index for thread $id"
+echo "Generating search index for thread $id"
 node ./scripts/make-algolia-db.js
 
 echo "Generating books for thread $id"
@@ -33,7 +33,7 @@ echo "Enriching books for thread $id"
 node ./scripts/book-enrichment.js
 
 echo "Adding thread $id to graph" 
-python ./scripts/create_graph.py 
+deno task graph
 
 echo "Moving metadata to public for thread $id"
 mv -v ./metadata/* ./public/metadata/
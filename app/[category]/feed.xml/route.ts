@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { CATEGORIES, findCategory } from '../../../infrastructure/categories';
+import { FEED_CONTENT_TYPES, createFeedResponse, getCategoryFeed, renderRssFeed } from '../../../infrastructure/feeds';
+import { SITE_URL } from '../../../infrastructure/constants';
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+export async function generateStaticParams() {
+  return CATEGORIES
+    .filter((category) => !category.virtual)
+    .map((category) => ({ category: category.slug }));
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ category: string }> }
+) {
+  const { category } = await params;
+
+  // Virtual categories only exist as homepage blocks
+  const definition = findCategory(category);
+  if (!definition || definition.virtual) {
+    return new NextResponse(null, { status: 404 });
+  }
+
+  return createFeedResponse(
+    renderRssFeed(getCategoryFeed(definition), `${SITE_URL}/${definition.slug}/feed.xml`),
+    FEED_CONTENT_TYPES.rss
+  );
+}
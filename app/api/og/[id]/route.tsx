@@ -0,0 +1,162 @@
+import { ImageResponse } from 'next/og';
+import { NextResponse } from 'next/server';
+import { TweetFacade, findCategory, getCategoryName } from '../../../../infrastructure';
+import { isValidTwitterId } from '../../../../infrastructure/utils/id-utils';
+import { calculateReadingTime } from '../../../../infrastructure/utils/text-utils';
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+
+// Rendered PNGs are kept per id for the lifetime of the server instance
+const imageCache = new Map<string, ArrayBuffer>();
+
+interface OgCard {
+  eyebrow: string;
+  title: string;
+  footer: string;
+  tags: string[];
+}
+
+async function getCard(id: string): Promise<OgCard | null> {
+  const tweetFacade = new TweetFacade();
+  const tweetProvider = tweetFacade.tweetProvider;
+
+  if (isValidTwitterId(id)) {
+    const thread = tweetProvider.getThread(id);
+    const mainTweet = thread[0];
+    if (!mainTweet) return null;
+
+    const author = tweetProvider.getThreadAuthor(mainTweet);
+    return {
+      eyebrow: author.NAME,
+      title: tweetProvider.getSummaryById(mainTweet.id),
+      footer: `${calculateReadingTime(thread)} min de lectura`,
+      tags: tweetProvider.getCategoryById(mainTweet.id).map(getCategoryName),
+    };
+  }
+
+  if (id === 'glosario') {
+    const terms = await tweetFacade.getGlossaryTerms();
+    return {
+      eyebrow: 'Glosario CPS',
+      title: 'La jerga especializada de las turras, explicada',
+      footer: `${terms.length} términos`,
+      tags: [],
+    };
+  }
+
+  const category = findCategory(id);
+  if (!category || category.virtual) return null;
+
+  const threadCount = tweetProvider.getTweetsByCategory(category.id).length;
+  return {
+    eyebrow: 'Categoría',
+    title: category.name,
+    footer: `${threadCount} ${threadCount === 1 ? 'turra' : 'turras'}`,
+    tags: [],
+  };
+}
+
+function renderCard(card: OgCard): ImageResponse {
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '64px 72px',
+          backgroundColor: '#f9f6f3',
+          borderLeft: '24px solid #a5050b',
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ display: 'flex', fontSize: 30, color: '#895645' }}>
+            {card.eyebrow}
+          </div>
+          <div
+            style={{
+              display: 'flex',
+              marginTop: 24,
+              fontSize: card.title.length > 90 ? 48 : 60,
+              fontWeight: 700,
+              lineHeight: 1.15,
+              color: '#301e1a',
+            }}
+          >
+            {card.title}
+          </div>
+          {card.tags.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', marginTop: 32 }}>
+              {card.tags.slice(0, 4).map((tag) => (
+                <div
+                  key={tag}
+                  style={{
+                    display: 'flex',
+                    marginRight: 12,
+                    marginBottom: 12,
+                    padding: '8px 20px',
+                    borderRadius: 9999,
+                    fontSize: 24,
+                    color: '#70473c',
+                    backgroundColor: '#f2eae2',
+                  }}
+                >
+                  {tag}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'flex-end',
+            fontSize: 28,
+            color: '#895645',
+          }}
+        >
+          <div style={{ display: 'flex', fontSize: 36, fontWeight: 700, color: '#5b3b33' }}>
+            El&nbsp;<span style={{ color: '#a5050b' }}>Turrero Post</span>
+          </div>
+          <div style={{ display: 'flex' }}>{card.footer}</div>
+        </div>
+      </div>
+    ),
+    { width: WIDTH, height: HEIGHT }
+  );
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  let key: string;
+  try {
+    key = decodeURIComponent(id);
+  } catch {
+    // A bare % left after Next decoded the param names no card
+    return new NextResponse(null, { status: 404 });
+  }
+
+  let image = imageCache.get(key);
+  if (!image) {
+    const card = await getCard(key);
+    if (!card) {
+      return new NextResponse(null, { status: 404 });
+    }
+    image = await renderCard(card).arrayBuffer();
+    imageCache.set(key, image);
+  }
+
+  return new NextResponse(image, {
+    headers: {
+      'Content-Type': 'image/png',
+      'Cache-Control': 'public, max-age=86400, s-maxage=604800, stale-while-revalidate=86400',
+    },
+  });
+}
@@ -1,16 +1,37 @@
 import { NextResponse } from 'next/server';
-import { TweetProvider } from '../../../infrastructure/TweetProvider';
+import { TweetFacade } from '../../../infrastructure';
+import type { SearchApiResponse } from '../../../infrastructure/types';
+import { SEARCH_PARAMS, parseSearchFilters } from '../../../infrastructure/utils/search-params';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
-  const query = searchParams.get('q');
-
-  if (!query) {
-    return NextResponse.json({ hits: [] });
-  }
+  const query = (searchParams.get(SEARCH_PARAMS.QUERY) ?? '').trim();
+  const filters = parseSearchFilters(searchParams);
+  const page = parsePositiveInt(searchParams.get(SEARCH_PARAMS.PAGE), 1);
+  const limit = Math.min(parsePositiveInt(searchParams.get('limit'), DEFAULT_LIMIT), MAX_LIMIT);
 
-  const tweetProvider = new TweetProvider();
-  const summary = tweetProvider.getSummaryById(query);
+  const start = performance.now();
+  const { threads, total, facets } = new TweetFacade().getSearchIndex().search(query, {
+    limit,
+    offset: (page - 1) * limit,
+    filters,
+  });
 
-  return NextResponse.json({ summary });
-} 
\ No newline at end of file
+  return NextResponse.json<SearchApiResponse>({
+    success: true,
+    data: threads,
+    meta: { total, page, limit },
+    query,
+    filters,
+    facets,
+    searchTime: Math.round(performance.now() - start),
+  });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { TweetProvider } from '../../../../infrastructure/TweetProvider';
+import type { ApiResponse } from '../../../../infrastructure/types';
+
+interface SummaryData {
+  id: string;
+  summary: string;
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const summary = new TweetProvider().getSummaryById(decodeURIComponent(id));
+
+  if (!summary) {
+    return NextResponse.json<ApiResponse<SummaryData>>(
+      { success: false, error: `No summary for thread ${id}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json<ApiResponse<SummaryData>>({
+    success: true,
+    data: { id, summary },
+  });
+}
@@ -0,0 +1,16 @@
+import { TweetFacade } from '../../../../infrastructure';
+import { apiResponse, paginate, parsePagination } from '../../../../infrastructure/utils/api-response';
+
+/** Library books, optionally narrowed to one book `category` (e.g. `Psychology`) */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  let books = new TweetFacade().getBooks();
+
+  const category = searchParams.get('category');
+  if (category) {
+    const wanted = category.toLowerCase();
+    books = books.filter(book => book.categories.some(c => c.toLowerCase() === wanted));
+  }
+
+  return apiResponse(request, paginate(books, parsePagination(searchParams)));
+}
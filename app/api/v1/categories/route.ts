@@ -0,0 +1,22 @@
+import { CATEGORIES, TweetFacade } from '../../../../infrastructure';
+import type { CategoryListItem } from '../../../../infrastructure/types';
+import { SITE_URL } from '../../../../infrastructure/constants';
+import { apiResponse } from '../../../../infrastructure/utils/api-response';
+
+/** Thread categories in display order; virtual categories are left out */
+export async function GET(request: Request) {
+  const tweetProvider = new TweetFacade().tweetProvider;
+
+  const categories: CategoryListItem[] = CATEGORIES
+    .filter(category => !category.virtual)
+    .map(category => ({
+      id: category.id,
+      slug: category.slug,
+      name: category.name,
+      ...(category.description ? { description: category.description } : {}),
+      url: `${SITE_URL}/${category.slug}`,
+      turraCount: tweetProvider.getTweetsByCategory(category.id).length,
+    }));
+
+  return apiResponse(request, { success: true, data: categories, meta: { total: categories.length } });
+}
@@ -0,0 +1,8 @@
+import { TweetFacade } from '../../../../infrastructure';
+import { apiResponse } from '../../../../infrastructure/utils/api-response';
+
+/** Glossary terms in glosario.csv order */
+export async function GET(request: Request) {
+  const terms = await new TweetFacade().getGlossaryTerms();
+  return apiResponse(request, { success: true, data: terms, meta: { total: terms.length } });
+}
@@ -0,0 +1,21 @@
+import { TweetFacade } from '../../../../../infrastructure';
+import { isValidTwitterId } from '../../../../../infrastructure/utils/id-utils';
+import { apiError, apiResponse } from '../../../../../infrastructure/utils/api-response';
+
+/** Full thread by its id or the id of any of its tweets */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidTwitterId(id)) {
+    return apiError(`Invalid tweet id "${id}"`, 400);
+  }
+
+  const turra = new TweetFacade().getTurraDetail(id);
+  if (!turra) {
+    return apiError(`No turra contains tweet ${id}`, 404);
+  }
+
+  return apiResponse(request, { success: true, data: turra });
+}
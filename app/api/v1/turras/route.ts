@@ -0,0 +1,50 @@
+import { TweetFacade, findCategory } from '../../../../infrastructure';
+import type { TurraListItem } from '../../../../infrastructure/types';
+import { apiError, apiResponse, paginate, parsePagination } from '../../../../infrastructure/utils/api-response';
+
+/** Parses an ISO date (`2023-05-01` or a full timestamp); `null` when absent */
+function parseDate(value: string | null): number | null | undefined {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Threads newest first. Filters: `category` (id or slug), `author` (X handle),
+ * `from` and `to` (ISO dates, inclusive); paginated with `page` and `limit`.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  let turras: TurraListItem[] = new TweetFacade().getTurraList();
+
+  const categoryParam = searchParams.get('category');
+  if (categoryParam) {
+    const category = findCategory(categoryParam);
+    if (!category || category.virtual) {
+      return apiError(`Unknown category "${categoryParam}"`, 400);
+    }
+    turras = turras.filter(turra => turra.categories.includes(category.id));
+  }
+
+  const authorParam = searchParams.get('author');
+  if (authorParam) {
+    const handle = authorParam.replace(/^@/, '').toLowerCase();
+    turras = turras.filter(turra => turra.author.x.split('/').pop()?.toLowerCase() === handle);
+  }
+
+  const from = parseDate(searchParams.get('from'));
+  const to = parseDate(searchParams.get('to'));
+  if (from === undefined || to === undefined) {
+    return apiError('Dates must be in ISO 8601 format, e.g. 2023-05-01', 400);
+  }
+  if (from !== null) {
+    turras = turras.filter(turra => new Date(turra.time).getTime() >= from);
+  }
+  if (to !== null) {
+    // A bare date includes the whole day
+    const end = /^\d{4}-\d{2}-\d{2}$/.test(searchParams.get('to') ?? '') ? to + 86_400_000 : to + 1;
+    turras = turras.filter(turra => new Date(turra.time).getTime() < end);
+  }
+
+  return apiResponse(request, paginate(turras, parsePagination(searchParams)));
+}
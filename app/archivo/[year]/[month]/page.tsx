@@ -0,0 +1,85 @@
+import { notFound } from 'next/navigation';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import {
+  filterArchiveTurras,
+  getArchivePath,
+  getArchiveTurras,
+  getArchiveYears,
+  getMonthCounts,
+  getMonthName,
+  formatMonthParam,
+  parseMonthParam,
+  parseYearParam,
+} from '../../../../infrastructure/archive';
+import { MonthHistogram } from '../../components/MonthHistogram';
+import { TurraList } from '../../../components/TurraList';
+
+interface Params {
+  params: Promise<{
+    year: string;
+    month: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const resolvedParams = await params;
+  const month = parseMonthParam(resolvedParams.month);
+  const label = month ? `${getMonthName(month)} de ${resolvedParams.year}` : resolvedParams.year;
+  return {
+    title: `Turras de ${label} - El Turrero Post`,
+    description: `Todas las turras publicadas en ${label}`,
+  };
+}
+
+export async function generateStaticParams() {
+  const turras = getArchiveTurras();
+  return getArchiveYears(turras).flatMap((year) =>
+    getMonthCounts(turras, year)
+      .filter((month) => month.count > 0)
+      .map((month) => ({ year: String(year), month: formatMonthParam(month.month) }))
+  );
+}
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+export default async function ArchivoMonthPage({ params }: Params) {
+  const resolvedParams = await params;
+  const year = parseYearParam(resolvedParams.year);
+  const month = parseMonthParam(resolvedParams.month);
+  if (year === null || month === null) {
+    notFound();
+  }
+
+  const allTurras = getArchiveTurras();
+  const turras = filterArchiveTurras(allTurras, year, month);
+  if (turras.length === 0) {
+    notFound();
+  }
+
+  return (
+    <main className="max-w-4xl mx-auto px-4 py-8">
+      <Link
+        href={getArchivePath(year)}
+        className="inline-flex items-center text-whiskey-700 hover:text-whiskey-900 transition-colors duration-200 group"
+      >
+        <span className="transform group-hover:-translate-x-1 transition-transform duration-200">←</span>
+        <span className="ml-2">{year}</span>
+      </Link>
+
+      <h1 className="text-3xl font-bold text-whiskey-900 mb-6 mt-6">
+        <span className="capitalize">{getMonthName(month)}</span> de {year}
+        <span className="ml-3 text-base font-medium text-whiskey-700 bg-whiskey-50 px-3 py-1 rounded-full">
+          {turras.length} {turras.length === 1 ? 'turra' : 'turras'}
+        </span>
+      </h1>
+
+      <div className="bg-white rounded-lg p-6 shadow-sm border border-whiskey-100 mb-8">
+        <MonthHistogram months={getMonthCounts(allTurras, year)} selectedMonth={month} />
+      </div>
+
+      <TurraList turras={turras} />
+    </main>
+  );
+}
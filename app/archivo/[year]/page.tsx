@@ -0,0 +1,107 @@
+import { notFound } from 'next/navigation';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import {
+  filterArchiveTurras,
+  getArchivePath,
+  getArchiveTurras,
+  getArchiveYears,
+  getMonthCounts,
+  getMonthName,
+  parseYearParam,
+} from '../../../infrastructure/archive';
+import { MonthHistogram } from '../components/MonthHistogram';
+import { TurraList } from '../../components/TurraList';
+
+interface Params {
+  params: Promise<{
+    year: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { year } = await params;
+  return {
+    title: `Turras de ${year} - El Turrero Post`,
+    description: `Todas las turras publicadas en ${year}`,
+  };
+}
+
+export async function generateStaticParams() {
+  return getArchiveYears(getArchiveTurras()).map((year) => ({ year: String(year) }));
+}
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+export default async function ArchivoYearPage({ params }: Params) {
+  const year = parseYearParam((await params).year);
+  if (year === null) {
+    notFound();
+  }
+
+  const allTurras = getArchiveTurras();
+  const turras = filterArchiveTurras(allTurras, year);
+  if (turras.length === 0) {
+    notFound();
+  }
+
+  const years = getArchiveYears(allTurras);
+  const months = getMonthCounts(allTurras, year).filter((month) => month.count > 0).reverse();
+
+  return (
+    <main className="max-w-4xl mx-auto px-4 py-8">
+      <Link
+        href={getArchivePath()}
+        className="inline-flex items-center text-whiskey-700 hover:text-whiskey-900 transition-colors duration-200 group"
+      >
+        <span className="transform group-hover:-translate-x-1 transition-transform duration-200">←</span>
+        <span className="ml-2">Archivo</span>
+      </Link>
+
+      <h1 className="text-3xl font-bold text-whiskey-900 mb-6 mt-6">
+        {year}
+        <span className="ml-3 text-base font-medium text-whiskey-700 bg-whiskey-50 px-3 py-1 rounded-full">
+          {turras.length} {turras.length === 1 ? 'turra' : 'turras'}
+        </span>
+      </h1>
+
+      <div className="bg-white rounded-lg p-6 shadow-sm border border-whiskey-100 mb-6">
+        <MonthHistogram months={getMonthCounts(allTurras, year)} />
+      </div>
+
+      <nav className="flex flex-wrap gap-2 mb-8" aria-label="Años">
+        {years.map((other) => (
+          <Link
+            key={other}
+            href={getArchivePath(other)}
+            aria-current={other === year ? 'page' : undefined}
+            className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+              other === year
+                ? 'bg-whiskey-600 text-white'
+                : 'bg-white text-whiskey-700 hover:bg-whiskey-50 border border-whiskey-200'
+            }`}
+          >
+            {other}
+          </Link>
+        ))}
+      </nav>
+
+      <div className="space-y-10">
+        {months.map(({ month, count }) => (
+          <section key={month}>
+            <h2 className="text-xl font-semibold text-whiskey-900 capitalize flex items-baseline gap-3">
+              <Link href={getArchivePath(year, month)} className="hover:underline">
+                {getMonthName(month)}
+              </Link>
+              <span className="text-sm font-medium normal-case text-whiskey-600">
+                {count} {count === 1 ? 'turra' : 'turras'}
+              </span>
+            </h2>
+            <TurraList turras={filterArchiveTurras(turras, year, month)} />
+          </section>
+        ))}
+      </div>
+    </main>
+  );
+}
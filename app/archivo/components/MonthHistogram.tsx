@@ -0,0 +1,54 @@
+import Link from 'next/link';
+import { ArchiveMonth, getArchivePath, getMonthName } from '../../../infrastructure/archive';
+
+interface MonthHistogramProps {
+  months: ArchiveMonth[];
+  /** Month shown as selected, 1-12 */
+  selectedMonth?: number;
+}
+
+/** Bar per month of a year, linking to the month pages that have turras */
+export function MonthHistogram({ months, selectedMonth }: MonthHistogramProps) {
+  const max = Math.max(1, ...months.map((month) => month.count));
+
+  return (
+    <div className="flex items-end gap-1 h-24" role="list" aria-label="Turras por mes">
+      {months.map(({ year, month, count }) => {
+        const label = `${getMonthName(month)} de ${year}: ${count} ${count === 1 ? 'turra' : 'turras'}`;
+        const bar = (
+          <>
+            <span
+              className={`w-full rounded-t transition-colors ${
+                month === selectedMonth
+                  ? 'bg-brand'
+                  : count > 0 ? 'bg-whiskey-300 group-hover:bg-whiskey-500' : 'bg-whiskey-100'
+              }`}
+              style={{ height: `${Math.max(4, (count / max) * 100)}%` }}
+            />
+            <span className="mt-1 text-[10px] uppercase text-whiskey-600">
+              {getMonthName(month).slice(0, 3)}
+            </span>
+          </>
+        );
+
+        return (
+          <div key={month} role="listitem" className="flex-1 h-full" title={label}>
+            {count > 0 ? (
+              <Link
+                href={getArchivePath(year, month)}
+                aria-label={label}
+                className="group flex flex-col justify-end items-center h-full"
+              >
+                {bar}
+              </Link>
+            ) : (
+              <div className="flex flex-col justify-end items-center h-full" aria-label={label}>
+                {bar}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
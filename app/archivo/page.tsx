@@ -0,0 +1,52 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { AUTHORS } from '@/infrastructure/authors';
+import {
+  filterArchiveTurras,
+  getArchivePath,
+  getArchiveTurras,
+  getArchiveYears,
+  getMonthCounts,
+} from '../../infrastructure/archive';
+import { MonthHistogram } from './components/MonthHistogram';
+
+export const metadata: Metadata = {
+  title: 'Archivo - El Turrero Post',
+  description: `Todas las turras de ${AUTHORS.MAIN}, por año y mes de publicación`,
+};
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+export default function ArchivoPage() {
+  const turras = getArchiveTurras();
+  const years = getArchiveYears(turras);
+
+  return (
+    <main className="max-w-4xl mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-whiskey-900 mb-3">Archivo</h1>
+      <p className="text-lg text-whiskey-700 mb-8">
+        Las {turras.length.toLocaleString('es-ES')} turras publicadas, por año y mes.
+      </p>
+
+      <div className="space-y-8">
+        {years.map((year) => {
+          const count = filterArchiveTurras(turras, year).length;
+          return (
+            <section key={year} className="bg-white rounded-lg p-6 shadow-sm border border-whiskey-100">
+              <h2 className="text-2xl font-semibold text-whiskey-900 mb-4 flex items-baseline gap-3">
+                <Link href={getArchivePath(year)} className="hover:underline">
+                  {year}
+                </Link>
+                <span className="text-sm font-medium text-whiskey-600">
+                  {count} {count === 1 ? 'turra' : 'turras'}
+                </span>
+              </h2>
+              <MonthHistogram months={getMonthCounts(turras, year)} />
+            </section>
+          );
+        })}
+      </div>
+    </main>
+  );
+}
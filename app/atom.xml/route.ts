@@ -0,0 +1,9 @@
+import { FEED_CONTENT_TYPES, createFeedResponse, getLatestFeed, renderAtomFeed } from '../../infrastructure/feeds';
+import { SITE_URL } from '../../infrastructure/constants';
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+export async function GET() {
+  return createFeedResponse(renderAtomFeed(getLatestFeed(), `${SITE_URL}/atom.xml`), FEED_CONTENT_TYPES.atom);
+}
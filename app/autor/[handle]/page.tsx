@@ -0,0 +1,168 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { TweetProvider } from "../../../infrastructure/TweetProvider";
+import { getArchiveTurras } from "../../../infrastructure/archive";
+import { getCategoryName, getCategorySlug } from "../../../infrastructure/categories";
+import { getAuthorPath } from "../../../infrastructure/constants";
+import { buildBreadcrumbJsonLd } from "../../../infrastructure/structured-data";
+import { TurraList } from "../../components/TurraList";
+import { JsonLd } from "../../components/JsonLd";
+
+interface Params {
+  params: Promise<{
+    handle: string;
+  }>;
+}
+
+/** Number of categories shown in the author stats */
+const TOP_CATEGORIES = 5;
+
+function getAuthorData(handle: string) {
+  const tweetProvider = new TweetProvider();
+  const profile = tweetProvider.getAuthorProfile(handle);
+  const threadIds = new Set(tweetProvider.getThreadsByAuthor(handle).map((tweet) => tweet.id));
+  if (!profile || threadIds.size === 0) return null;
+
+  const turras = getArchiveTurras().filter((turra) => threadIds.has(turra.id));
+  const tweetCount = turras.reduce((count, turra) => count + tweetProvider.getThread(turra.id).length, 0);
+  const categoryCounts = new Map<string, number>();
+  turras.forEach((turra) => turra.categories.forEach((category) => {
+    categoryCounts.set(category, (categoryCounts.get(category) || 0) + 1);
+  }));
+
+  return {
+    profile,
+    turras,
+    stats: {
+      tweetCount,
+      engagement: turras.reduce((total, turra) => total + turra.engagement, 0),
+      first: turras[turras.length - 1]!.time,
+      latest: turras[0]!.time,
+      topCategories: Array.from(categoryCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_CATEGORIES),
+    },
+  };
+}
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { handle } = await params;
+  const data = getAuthorData(decodeURIComponent(handle));
+  if (!data) {
+    return { title: "Not Found" };
+  }
+
+  const description = data.profile.bio || `Las turras de ${data.profile.name} en El Turrero Post`;
+  return {
+    title: `${data.profile.name} - El Turrero Post`,
+    description,
+    alternates: {
+      canonical: getAuthorPath(data.profile.handle),
+    },
+    openGraph: {
+      title: `${data.profile.name} - El Turrero Post`,
+      description,
+      ...(data.profile.avatar ? { images: [data.profile.avatar] } : {}),
+    },
+  };
+}
+
+export async function generateStaticParams() {
+  return new TweetProvider().getAuthorHandles().map((handle) => ({
+    handle: handle.toLowerCase(),
+  }));
+}
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+function formatDate(time: string): string {
+  return format(new Date(time), "MMMM 'de' yyyy", { locale: es });
+}
+
+export default async function AuthorPage({ params }: Params) {
+  const { handle } = await params;
+  const data = getAuthorData(decodeURIComponent(handle));
+  if (!data) {
+    notFound();
+  }
+
+  const { profile, turras, stats } = data;
+  const links = [
+    { href: profile.links.x, label: `@${profile.handle} en X` },
+    ...(profile.links.youtube ? [{ href: profile.links.youtube, label: "YouTube" }] : []),
+    ...(profile.links.web ? [{ href: profile.links.web, label: "Web" }] : []),
+  ];
+
+  return (
+    <main className="max-w-4xl mx-auto px-4 py-8">
+      <JsonLd data={buildBreadcrumbJsonLd([{ name: profile.name, path: getAuthorPath(profile.handle) }])} />
+      <header className="flex flex-col sm:flex-row gap-6 items-start mb-8">
+        {profile.avatar && (
+          <Image
+            src={profile.avatar}
+            alt={profile.name}
+            width={128}
+            height={128}
+            className="rounded-full shadow-md w-32 h-32 object-cover shrink-0"
+          />
+        )}
+        <div>
+          <h1 className="text-3xl font-bold text-whiskey-900 mb-2">{profile.name}</h1>
+          {profile.bio && (
+            <p className="text-whiskey-700 leading-relaxed mb-3">{profile.bio}</p>
+          )}
+          <div className="flex flex-wrap gap-3 text-sm">
+            {links.map((link) => (
+              <a
+                key={link.href}
+                href={link.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-whiskey-700 hover:text-whiskey-900 font-medium underline"
+              >
+                {link.label}
+              </a>
+            ))}
+          </div>
+        </div>
+      </header>
+
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {[
+          { label: turras.length === 1 ? "turra" : "turras", value: turras.length.toLocaleString("es-ES") },
+          { label: "tweets", value: stats.tweetCount.toLocaleString("es-ES") },
+          { label: "interacciones", value: stats.engagement.toLocaleString("es-ES") },
+          { label: "publicando", value: `${formatDate(stats.first)} – ${formatDate(stats.latest)}` },
+        ].map((stat) => (
+          <div key={stat.label} className="bg-white rounded-lg p-4 shadow-sm border border-whiskey-100">
+            <dd className="text-xl font-bold text-whiskey-900">{stat.value}</dd>
+            <dt className="text-sm text-whiskey-600">{stat.label}</dt>
+          </div>
+        ))}
+      </dl>
+
+      {stats.topCategories.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-8">
+          <span className="text-sm text-whiskey-600">Escribe sobre:</span>
+          {stats.topCategories.map(([category, count]) => (
+            <Link
+              key={category}
+              href={`/${getCategorySlug(category)}`}
+              className="py-1 px-3 rounded-full text-xs font-medium bg-whiskey-100 text-whiskey-800 hover:bg-whiskey-200 transition-colors"
+            >
+              {getCategoryName(category)} ({count})
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <h2 className="text-xl font-semibold text-whiskey-900">Turras</h2>
+      <TurraList turras={turras} />
+    </main>
+  );
+}
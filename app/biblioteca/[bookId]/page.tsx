@@ -0,0 +1,175 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { TweetFacade } from "../../../infrastructure";
+import { getArchiveTurras } from "../../../infrastructure/archive";
+import { getBookCategoryName } from "../../../infrastructure/categories";
+import { getBookPath, toSiteUrl } from "../../../infrastructure/constants";
+import { AUTHORS } from "../../../infrastructure/authors";
+import { buildBookJsonLd, buildBreadcrumbJsonLd } from "../../../infrastructure/structured-data";
+import { getTweetAnchor } from "../../../infrastructure/utils/id-utils";
+import { TurraList } from "../../components/TurraList";
+import { JsonLd } from "../../components/JsonLd";
+
+interface Params {
+  params: Promise<{
+    bookId: string;
+  }>;
+}
+
+/** Characters of each citing tweet shown on the page */
+const TWEET_EXCERPT_LENGTH = 280;
+
+function getBookData(bookId: string) {
+  const tweetFacade = new TweetFacade();
+  const book = tweetFacade.getBookById(bookId);
+  if (!book) return null;
+
+  const tweetProvider = tweetFacade.tweetProvider;
+  const turraIds = new Set(book.turraIds);
+  const turras = getArchiveTurras().filter((turra) => turraIds.has(turra.id));
+  const tweets = book.tweetIds.flatMap((tweetId) => {
+    const tweet = tweetProvider.getTweetById(tweetId);
+    if (!tweet) return [];
+    return [{
+      id: tweet.id,
+      text: tweet.tweet.length > TWEET_EXCERPT_LENGTH
+        ? `${tweet.tweet.slice(0, TWEET_EXCERPT_LENGTH - 1).trimEnd()}…`
+        : tweet.tweet,
+      path: `${tweetProvider.getTurraPath(tweet.id)}#${getTweetAnchor(tweet.id)}`,
+      summary: tweetProvider.getSummaryById(tweetProvider.getThread(tweet.id)[0]?.id ?? tweet.id),
+    }];
+  });
+
+  return { book, turras, tweets };
+}
+
+function getCoverPath(img: string): string {
+  return img ? img.replace('./', '/') : '/metadata/SJJzT3AT_11.jpeg';
+}
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { bookId } = await params;
+  const data = getBookData(bookId);
+  if (!data) {
+    return { title: "Not Found" };
+  }
+
+  const { book, turras } = data;
+  const description = `${book.title}, citado en ${turras.length} ${turras.length === 1 ? "turra" : "turras"} de ${AUTHORS.MAIN}`;
+  return {
+    title: `${book.title} - Biblioteca`,
+    description,
+    alternates: {
+      canonical: getBookPath(book.goodreadsId),
+    },
+    openGraph: {
+      title: `${book.title} - Biblioteca - El Turrero Post`,
+      description,
+      ...(book.img ? { images: [toSiteUrl(book.img)] } : {}),
+    },
+  };
+}
+
+export async function generateStaticParams() {
+  return new TweetFacade().getBooks().map((book) => ({
+    bookId: book.goodreadsId,
+  }));
+}
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+export default async function BookPage({ params }: Params) {
+  const { bookId } = await params;
+  const data = getBookData(bookId);
+  if (!data) {
+    notFound();
+  }
+
+  const { book, turras, tweets } = data;
+
+  return (
+    <main className="max-w-4xl mx-auto px-4 py-8">
+      <JsonLd data={buildBookJsonLd(book)} />
+      <JsonLd data={buildBreadcrumbJsonLd([
+        { name: "Biblioteca", path: "/biblioteca" },
+        { name: book.title, path: getBookPath(book.goodreadsId) },
+      ])} />
+      <nav className="text-sm text-whiskey-600 mb-4">
+        <Link href="/biblioteca" className="hover:text-whiskey-900">
+          Biblioteca
+        </Link>
+      </nav>
+
+      <header className="flex flex-col sm:flex-row gap-6 mb-10">
+        <div className="relative w-40 aspect-[2/3] shrink-0 rounded-lg overflow-hidden shadow-md bg-white">
+          <Image
+            src={getCoverPath(book.img)}
+            alt={book.title}
+            fill
+            className="object-contain"
+            sizes="160px"
+            priority
+          />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold text-whiskey-900 mb-3">{book.title}</h1>
+          <p className="text-whiskey-700 mb-4">
+            Citado en {turras.length} {turras.length === 1 ? "turra" : "turras"}
+            {tweets.length > turras.length && ` y ${tweets.length} tweets`}.
+          </p>
+          {book.categories.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mb-3">
+              {book.categories.map((category) => (
+                <span
+                  key={category}
+                  className="py-0.5 px-2 rounded-full text-xs font-medium bg-whiskey-100 text-whiskey-800"
+                >
+                  {getBookCategoryName(category)}
+                </span>
+              ))}
+            </div>
+          )}
+          {book.goodreadsCategories && book.goodreadsCategories.length > 0 && (
+            <p className="text-sm text-whiskey-600 mb-4">
+              Géneros en Goodreads: {book.goodreadsCategories.join(", ")}
+            </p>
+          )}
+          <a
+            href={book.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-block text-brand hover:text-brand-dark underline"
+          >
+            Ver en Goodreads
+          </a>
+        </div>
+      </header>
+
+      {turras.length > 0 && (
+        <section className="mb-10">
+          <h2 className="text-xl font-semibold text-whiskey-900 mb-2">Turras que lo citan</h2>
+          <TurraList turras={turras} />
+        </section>
+      )}
+
+      {tweets.length > 0 && (
+        <section>
+          <h2 className="text-xl font-semibold text-whiskey-900 mb-4">Tweets que lo mencionan</h2>
+          <ul className="space-y-4">
+            {tweets.map((tweet) => (
+              <li key={tweet.id} className="bg-white rounded-lg shadow-sm border border-whiskey-100 p-4">
+                <p className="text-whiskey-800 whitespace-pre-line mb-2">{tweet.text}</p>
+                <Link href={tweet.path} className="text-sm text-whiskey-600 hover:text-brand transition-colors">
+                  {tweet.summary}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -1,60 +1,147 @@
 "use client";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Image from "next/image";
+import { FaSearch } from "react-icons/fa";
 import { Book } from "../../../infrastructure";
 import Link from "next/link";
-import { AUTHORS } from "@/infrastructure/constants";
+import { getBookPath } from "@/infrastructure/constants";
+import {
+  DEFAULT_LIBRARY_FILTERS,
+  LibraryCategory,
+  LibraryFilters,
+  LibrarySort,
+  buildLibraryParams,
+  filterBooks,
+  parseLibraryFilters,
+} from "@/infrastructure/library";
 
 interface BookGridProps {
   books: Book[];
-  categories: string[];
-  categoriesMap: { [key: string]: string };
+  categories: LibraryCategory[];
 }
 
-export default function BookGrid({ books, categories, categoriesMap }: BookGridProps) {
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+const SORT_LABELS: Record<LibrarySort, string> = {
+  citas: "Más citados",
+  reciente: "Citados recientemente",
+  titulo: "Título",
+};
 
-  const filteredBooks = selectedCategory
-    ? books.filter((book) => book.categories.includes(selectedCategory))
-    : books;
+const pillClassName = (selected: boolean) => `px-4 py-2 rounded-full transition-all duration-200 text-sm font-medium shadow-sm ${
+  selected
+    ? 'bg-whiskey-600 text-white shadow-whiskey-200'
+    : 'bg-white text-whiskey-800 hover:bg-whiskey-50 border border-whiskey-200'
+}`;
+
+export default function BookGrid({ books, categories }: BookGridProps) {
+  const [filters, setFilters] = useState<LibraryFilters>(DEFAULT_LIBRARY_FILTERS);
+
+  // The page is static, so the filters of a shared link are read once mounted
+  useEffect(() => {
+    const readFilters = () => setFilters(parseLibraryFilters(new URLSearchParams(window.location.search)));
+    readFilters();
+    window.addEventListener("popstate", readFilters);
+    return () => window.removeEventListener("popstate", readFilters);
+  }, []);
+
+  const updateFilters = (changes: Partial<LibraryFilters>): void => {
+    const nextFilters = { ...filters, ...changes };
+    setFilters(nextFilters);
+    const params = buildLibraryParams(nextFilters).toString();
+    window.history.replaceState(null, "", params ? `?${params}` : window.location.pathname);
+  };
+
+  const toggleCategory = (category: string): void => {
+    updateFilters({
+      categories: filters.categories.includes(category)
+        ? filters.categories.filter((selected) => selected !== category)
+        : [...filters.categories, category],
+    });
+  };
+
+  const categoryNames = Object.fromEntries(categories.map((category) => [category.id, category.name]));
+  const filteredBooks = filterBooks(books, filters);
+  // Authors are searched once book enrichment has recorded them
+  const searchTarget = books.some((book) => book.author) ? "título o autor" : "título";
 
   return (
     <>
-      {/* Categories Filter - Updated with modern pill design */}
-      <div className="mb-8 flex flex-wrap gap-2 px-1">
+      <div className="mb-4 flex flex-col sm:flex-row gap-3 px-1">
+        <div className="relative flex-1">
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => updateFilters({ query: e.target.value })}
+            placeholder={`Buscar por ${searchTarget}...`}
+            aria-label={`Buscar libros por ${searchTarget}`}
+            className="w-full pl-10 pr-4 py-2.5 border border-whiskey-200 rounded-lg bg-white placeholder:text-whiskey-400 text-whiskey-950 focus:outline-none focus:border-whiskey-300 focus:ring-1 focus:ring-whiskey-200"
+          />
+          <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-whiskey-400" />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-whiskey-800">
+          Ordenar por
+          <select
+            value={filters.sort}
+            onChange={(e) => updateFilters({ sort: e.target.value as LibrarySort })}
+            className="py-2.5 px-3 border border-whiskey-200 rounded-lg bg-white focus:outline-none focus:border-whiskey-300"
+          >
+            {Object.entries(SORT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Categories Filter - several can be selected */}
+      <div className="mb-4 flex flex-wrap gap-2 px-1">
         <button
-          className={`px-4 py-2 rounded-full transition-all duration-200 text-sm font-medium shadow-sm ${
-            selectedCategory === null
-              ? 'bg-whiskey-600 text-white shadow-whiskey-200'
-              : 'bg-white text-whiskey-800 hover:bg-whiskey-50 border border-whiskey-200'
-          }`}
-          onClick={() => setSelectedCategory(null)}
+          aria-pressed={filters.categories.length === 0}
+          className={pillClassName(filters.categories.length === 0)}
+          onClick={() => updateFilters({ categories: [] })}
         >
           Todos
         </button>
         {categories.map((category) => (
           <button
-            key={category}
-            className={`px-4 py-2 rounded-full transition-all duration-200 text-sm font-medium shadow-sm ${
-              selectedCategory === category
-                ? 'bg-whiskey-600 text-white shadow-whiskey-200'
-                : 'bg-white text-whiskey-800 hover:bg-whiskey-50 border border-whiskey-200'
-            }`}
-            onClick={() => setSelectedCategory(category)}
+            key={category.id}
+            aria-pressed={filters.categories.includes(category.id)}
+            className={pillClassName(filters.categories.includes(category.id))}
+            onClick={() => toggleCategory(category.id)}
           >
-            {categoriesMap[category]}
+            {category.name} <span className="opacity-70">{category.count}</span>
           </button>
         ))}
       </div>
 
+      <div className="mb-8 flex flex-wrap items-center gap-3 px-1 text-sm text-whiskey-700">
+        {filters.categories.length > 1 && (
+          <div role="group" aria-label="Coincidencia de categorías" className="flex rounded-lg border border-whiskey-200 overflow-hidden">
+            {(["alguna", "todas"] as const).map((match) => (
+              <button
+                key={match}
+                aria-pressed={filters.match === match}
+                onClick={() => updateFilters({ match })}
+                className={`px-3 py-1.5 ${filters.match === match ? "bg-whiskey-600 text-white" : "bg-white hover:bg-whiskey-50"}`}
+              >
+                {match === "alguna" ? "Cualquiera de ellas" : "Todas ellas"}
+              </button>
+            ))}
+          </div>
+        )}
+        <span aria-live="polite">
+          {filteredBooks.length} de {books.length} libros
+        </span>
+      </div>
+
+      {filteredBooks.length === 0 && (
+        <p className="px-1 text-whiskey-700">Ningún libro coincide con estos filtros.</p>
+      )}
+
       {/* Books Grid - Enhanced with hover effects and better spacing */}
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 px-1">
         {filteredBooks.map((book) => (
-          <div key={book.id} className="group flex flex-col bg-white rounded-xl p-3 transition-all duration-200 hover:shadow-md">
-            <a 
-              href={book.url} 
-              target="_blank" 
-              rel="noopener noreferrer" 
+          <div key={book.goodreadsId} className="group flex flex-col bg-white rounded-xl p-3 transition-all duration-200 hover:shadow-md">
+            <Link 
+              href={getBookPath(book.goodreadsId)} 
               className="relative block"
             >
               <div className="relative aspect-[2/3] mb-2 rounded-lg overflow-hidden">
@@ -69,37 +156,32 @@ export default function BookGrid({ books, categories, categoriesMap }: BookGridP
               <h3 className="font-medium text-sm text-gray-900 line-clamp-2 group-hover:text-whiskey-600 transition-colors">
                 {book.title}
               </h3>
-            </a>
+            </Link>
             
             {/* Links section - Modernized with icons (you'll need to add icons) */}
             <div className="mt-2 flex gap-3 text-xs">
+              <span className="text-gray-600">
+                {book.turraIds.length} {book.turraIds.length === 1 ? 'turra' : 'turras'}
+              </span>
               <a 
-                href={`${AUTHORS.RECUENCO.X}/status/${book.id}`}
+                href={book.url}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-gray-600 hover:text-whiskey-600 transition-colors flex items-center gap-1"
               >
-                Tweet original
+                Goodreads
               </a>
-              <Link 
-                href={`/turra/${book.id}`}
-                className="text-gray-600 hover:text-whiskey-600 transition-colors flex items-center gap-1"
-              >
-                Turra original
-              </Link>
             </div>
 
             {/* Categories - More compact and modern */}
             <div className="mt-2 flex flex-wrap gap-1">
               {book.categories.map((category) => (
-                categoriesMap[category] && (
-                  <span 
-                    key={category}
-                    className="text-[10px] px-2 py-0.5 bg-whiskey-50 text-whiskey-600 rounded-full border border-whiskey-100"
-                  >
-                    {categoriesMap[category]}
-                  </span>
-                )
+                <span 
+                  key={category}
+                  className="text-[10px] px-2 py-0.5 bg-whiskey-50 text-whiskey-600 rounded-full border border-whiskey-100"
+                >
+                  {categoryNames[category] ?? category}
+                </span>
               ))}
             </div>
           </div>
@@ -1,32 +1,22 @@
-import { TweetFacade } from "../../infrastructure";
+import { TweetFacade, Book } from "../../infrastructure";
 import BookGrid from './components/BookGrid';
 import { Metadata } from 'next';
-import { AUTHORS } from '@/infrastructure/constants';
+import { AUTHORS } from '@/infrastructure/authors';
+import { getBookCategoryName } from '@/infrastructure/categories';
+import type { LibraryCategory } from '@/infrastructure/library';
+import { buildBookListJsonLd } from '@/infrastructure/structured-data';
+import { JsonLd } from '../components/JsonLd';
 
-const categories = [
-  "Nonfiction", "Psychology", "History", "Business", "Self Help",
-  "Personal Development", "Technology", "Science", "Biography",
-  "Health", "Economics", "Education", "Artificial Intelligence",
-  "Games", "Fiction"
-];
-
-const categoriesMap: { [key: string]: string } = {
-  "Nonfiction": "No ficción",
-  "Psychology": "Psicología",
-  "History": "Historia",
-  "Business": "Negocios y empresa",
-  "Self Help": "Autoayuda",
-  "Personal Development": "Desarrollo personal",
-  "Technology": "Tecnología",
-  "Science": "Ciencia",
-  "Biography": "Biografía",
-  "Health": "Salud",
-  "Economics": "Economía",
-  "Education": "Educación",
-  "Artificial Intelligence": "Inteligencia artificial",
-  "Games": "Juegos",
-  "Fiction": "Ficción"
-};
+/** Categories present in the books, the most populated first */
+function getLibraryCategories(categories: string[], books: Book[]): LibraryCategory[] {
+  return categories
+    .map((id) => ({
+      id,
+      name: getBookCategoryName(id),
+      count: books.filter((book) => book.categories.includes(id)).length,
+    }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name, 'es'));
+}
 
 export const metadata: Metadata = {
   title: 'Biblioteca',
@@ -41,9 +31,11 @@ export const metadata: Metadata = {
 export default async function LibrosPage() {
   const tweetFacade = new TweetFacade();
   const books = tweetFacade.getBooks();
+  const categories = getLibraryCategories(tweetFacade.getBookCategories(), books);
 
   return (
     <main className="container mx-auto px-4 py-8">
+      <JsonLd data={buildBookListJsonLd(books)} />
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-whiskey-900 mb-4">
           La biblioteca.
@@ -53,11 +45,7 @@ export default async function LibrosPage() {
         </p>
       </div>
       
-      <BookGrid 
-        books={books} 
-        categories={categories} 
-        categoriesMap={categoriesMap} 
-      />
+      <BookGrid books={books} categories={categories} />
     </main>
   );
 } 
\ No newline at end of file
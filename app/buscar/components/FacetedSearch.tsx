@@ -0,0 +1,285 @@
+"use client";
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { FaSearch } from "react-icons/fa";
+import SearchResultItem from "../../components/SearchResultItem";
+import { FacetCount, SearchApiResponse, SearchFilters } from "../../../infrastructure/types";
+import { getCategoryName } from "../../../infrastructure/categories";
+import { AUTHORS } from "@/infrastructure/authors";
+import {
+  SEARCH_PARAMS,
+  buildSearchParams,
+  parseSearchFilters,
+} from "../../../infrastructure/utils/search-params";
+
+const AUTHOR_LABELS: { [key: string]: string } = {
+  principal: AUTHORS.RECUENCO.NAME,
+  "otros-autores": "Otros autores",
+};
+
+const monthFormatter = new Intl.DateTimeFormat("es", { month: "long", timeZone: "UTC" });
+
+function getMonthName(month: string): string {
+  const name = monthFormatter.format(new Date(Date.UTC(2000, Number(month) - 1, 1)));
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+interface FacetOptionProps {
+  label: string;
+  count: number;
+  selected: boolean;
+  onClick: () => void;
+}
+
+function FacetOption({ label, count, selected, onClick }: FacetOptionProps) {
+  return (
+    <li>
+      <button
+        type="button"
+        aria-pressed={selected}
+        onClick={onClick}
+        className={`w-full flex justify-between items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+          selected
+            ? "bg-whiskey-600 text-white"
+            : "text-whiskey-800 hover:bg-whiskey-50"
+        }`}
+      >
+        <span className="text-left">{label}</span>
+        <span className={selected ? "text-whiskey-100" : "text-whiskey-500"}>{count}</span>
+      </button>
+    </li>
+  );
+}
+
+interface FacetGroupProps {
+  title: string;
+  options: FacetCount[];
+  selected: string | undefined;
+  getLabel: (value: string) => string;
+  onSelect: (value: string) => void;
+}
+
+function FacetGroup({ title, options, selected, getLabel, onSelect }: FacetGroupProps) {
+  if (options.length === 0) return null;
+
+  return (
+    <div>
+      <h2 className="text-sm font-semibold text-whiskey-900 mb-2">{title}</h2>
+      <ul className="space-y-0.5">
+        {options.map(({ value, count }) => (
+          <FacetOption
+            key={value}
+            label={getLabel(value)}
+            count={count}
+            selected={selected === value}
+            onClick={() => onSelect(value)}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function FacetedSearch() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const paramsKey = searchParams.toString();
+  const query = searchParams.get(SEARCH_PARAMS.QUERY) ?? "";
+  const filters = parseSearchFilters(searchParams);
+  const page = Number(searchParams.get(SEARCH_PARAMS.PAGE)) || 1;
+
+  const [inputText, setInputText] = useState(query);
+  const [response, setResponse] = useState<SearchApiResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Keep the input in sync when the URL changes (back/forward, shared links)
+  useEffect(() => {
+    setInputText(query);
+  }, [query]);
+
+  const hasFilters = Object.keys(filters).length > 0;
+
+  // A link with only filters lists the matching turras, newest first
+  useEffect(() => {
+    if (!query && !hasFilters) {
+      setResponse(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    fetch(`/api/search?${paramsKey}`, { signal: controller.signal })
+      .then((res) => res.json())
+      .then((data: SearchApiResponse) => {
+        setResponse(data);
+        setIsLoading(false);
+      })
+      .catch((error) => {
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        // Only log errors in development environment
+        if (process.env.NODE_ENV === "development") {
+          console.error("Search error:", error);
+        }
+        setResponse(null);
+        setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [paramsKey, query, hasFilters]);
+
+  const navigate = (nextQuery: string, nextFilters: SearchFilters, nextPage = 1): void => {
+    router.replace(`/buscar?${buildSearchParams(nextQuery.trim(), nextFilters, nextPage)}`, { scroll: false });
+  };
+
+  /** Selects a filter value, or clears it when it is already selected */
+  const toggleFilter = <K extends keyof SearchFilters>(key: K, value: NonNullable<SearchFilters[K]>): void => {
+    const nextFilters: SearchFilters = { ...filters };
+    if (filters[key] === value) {
+      delete nextFilters[key];
+    } else {
+      nextFilters[key] = value;
+    }
+    // A month is only meaningful within a year
+    if (nextFilters.year === undefined) delete nextFilters.month;
+    navigate(query, nextFilters);
+  };
+
+  const facets = response?.facets;
+  const results = response?.data ?? [];
+  const total = response?.meta?.total ?? 0;
+  const limit = response?.meta?.limit ?? 20;
+  const totalPages = Math.ceil(total / limit);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <form
+        role="search"
+        className="lg:col-span-12 relative"
+        onSubmit={(e) => {
+          e.preventDefault();
+          navigate(inputText, filters);
+        }}
+      >
+        <input
+          type="search"
+          value={inputText}
+          onChange={(e) => setInputText(e.target.value)}
+          placeholder="Buscar turras..."
+          aria-label="Buscar turras"
+          className="w-full pl-10 pr-4 py-2.5 border border-whiskey-200 rounded-lg bg-white placeholder:text-whiskey-400 text-whiskey-950 focus:outline-none focus:border-whiskey-300 focus:ring-1 focus:ring-whiskey-200"
+        />
+        <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-whiskey-400" />
+      </form>
+
+      {/* Facets */}
+      <aside className="lg:col-span-3 space-y-6">
+        {facets && (
+          <>
+            <FacetGroup
+              title="Autor"
+              options={facets.authors}
+              selected={filters.author}
+              getLabel={(value) => AUTHOR_LABELS[value] ?? value}
+              onSelect={(value) => toggleFilter("author", value === "principal" ? "principal" : "otros-autores")}
+            />
+            <FacetGroup
+              title="Categoría"
+              options={facets.categories}
+              selected={filters.category}
+              getLabel={getCategoryName}
+              onSelect={(value) => toggleFilter("category", value)}
+            />
+            <FacetGroup
+              title="Año"
+              options={facets.years}
+              selected={filters.year?.toString()}
+              getLabel={(value) => value}
+              onSelect={(value) => toggleFilter("year", Number(value))}
+            />
+            {filters.year !== undefined && (
+              <FacetGroup
+                title="Mes"
+                options={facets.months}
+                selected={filters.month?.toString()}
+                getLabel={getMonthName}
+                onSelect={(value) => toggleFilter("month", Number(value))}
+              />
+            )}
+            {(facets.exam > 0 || facets.podcast > 0 || filters.hasExam || filters.hasPodcast) && (
+              <div>
+                <h2 className="text-sm font-semibold text-whiskey-900 mb-2">Contenido</h2>
+                <ul className="space-y-0.5">
+                  <FacetOption
+                    label="Con examen"
+                    count={facets.exam}
+                    selected={filters.hasExam === true}
+                    onClick={() => toggleFilter("hasExam", true)}
+                  />
+                  <FacetOption
+                    label="Con podcast"
+                    count={facets.podcast}
+                    selected={filters.hasPodcast === true}
+                    onClick={() => toggleFilter("hasPodcast", true)}
+                  />
+                </ul>
+              </div>
+            )}
+            {hasFilters && (
+              <button
+                type="button"
+                onClick={() => navigate(query, {})}
+                className="text-sm font-medium text-whiskey-700 hover:text-whiskey-900 underline"
+              >
+                Quitar filtros
+              </button>
+            )}
+          </>
+        )}
+      </aside>
+
+      {/* Results */}
+      <section className="lg:col-span-9" aria-live="polite" aria-busy={isLoading}>
+        {response && (
+          <p className="text-sm text-whiskey-600 mb-4">
+            {total} {total === 1 ? "turra" : "turras"}{" "}
+            {response.query ? `para «${response.query}»` : "con estos filtros"}
+          </p>
+        )}
+        <div className={`bg-white rounded-xl ${isLoading ? "opacity-60" : ""}`}>
+          {results.map((result) => (
+            <SearchResultItem key={result.threadId} result={result} />
+          ))}
+          {response && results.length === 0 && (
+            <div className="p-4 text-center text-whiskey-500">
+              No se encontraron resultados
+            </div>
+          )}
+        </div>
+
+        {totalPages > 1 && (
+          <nav className="flex justify-between items-center mt-6 text-sm" aria-label="Paginación">
+            <button
+              type="button"
+              disabled={page <= 1}
+              onClick={() => navigate(query, filters, page - 1)}
+              className="px-4 py-2 rounded-lg border border-whiskey-200 text-whiskey-800 hover:bg-whiskey-50 disabled:opacity-40"
+            >
+              Anterior
+            </button>
+            <span className="text-whiskey-600">
+              Página {page} de {totalPages}
+            </span>
+            <button
+              type="button"
+              disabled={page >= totalPages}
+              onClick={() => navigate(query, filters, page + 1)}
+              className="px-4 py-2 rounded-lg border border-whiskey-200 text-whiskey-800 hover:bg-whiskey-50 disabled:opacity-40"
+            >
+              Siguiente
+            </button>
+          </nav>
+        )}
+      </section>
+    </div>
+  );
+}
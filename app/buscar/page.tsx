@@ -0,0 +1,29 @@
+import { Suspense } from 'react';
+import { Metadata } from 'next';
+import FacetedSearch from './components/FacetedSearch';
+import { AUTHORS } from '@/infrastructure/authors';
+
+export const metadata: Metadata = {
+  title: 'Buscar',
+  description: `Busca en todas las turras de ${AUTHORS.MAIN} y filtra por categoría, autor, fecha, examen o podcast`,
+  robots: { index: false, follow: true },
+};
+
+export default function BuscarPage() {
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-whiskey-900 mb-4">
+          Buscar en las turras.
+        </h1>
+        <p className="text-lg text-whiskey-700">
+          Usa comillas para buscar una frase exacta, por ejemplo &quot;el contexto manda&quot;.
+        </p>
+      </div>
+
+      <Suspense fallback={<div className="text-whiskey-500">Cargando búsqueda…</div>}>
+        <FacetedSearch />
+      </Suspense>
+    </main>
+  );
+}
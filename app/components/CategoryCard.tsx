@@ -1,4 +1,6 @@
 import { CategoryCardProps } from "../../infrastructure/types";
+import { findCategory, getCategorySlug } from "../../infrastructure/categories";
+import { getTurraPath } from "../../infrastructure/utils/text-utils";
 
 function formatRelativeTime(dateString: string, fullText: boolean = false): string {
   const date = new Date(dateString);
@@ -36,29 +38,19 @@ function formatRelativeTime(dateString: string, fullText: boolean = false): stri
   }
 }
 
-function formatCategoryUrl(category: string): string {
-  return String(category)
-    .toLowerCase()
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[^a-z0-9\s-]/g, "")
-    .replace(/\s+/g, "-")
-    .replace(/-+/g, "-")
-    .trim();
-}
-
 export function CategoryCard({ category, tweets, formatCategoryTitle }: CategoryCardProps) {
-  const isTop25 = category === 'top-25-turras';
-  const isLasMasNuevas = category === 'las-más-nuevas';
-  const isOtrosAutores = category === 'otros-autores'; // en algun momento se puede poner una página de otros autores
-  
+  // Virtual categories (top 25, newest, trending, other authors) have no category page
+  const definition = findCategory(category);
+  const isVirtual = definition?.virtual ?? false;
+  const categoryUrl = `/${getCategorySlug(category)}`;
+
   return (
     <div className="bg-white rounded-lg shadow-lg p-4 hover:shadow-xl transition-shadow duration-300 flex flex-col min-h-[400px] group">
       <h2 className="text-xl font-bold mb-3 text-whiskey-900 group-hover:text-whiskey-700 transition-colors">
-        { (isTop25 ||isLasMasNuevas || isOtrosAutores)? (
+        { isVirtual ? (
           formatCategoryTitle(category)
         ) : (
-          <a href={`/${formatCategoryUrl(category)}`} className="hover:underline">
+          <a href={categoryUrl} className="hover:underline">
             {formatCategoryTitle(category)}
           </a>
         )}
@@ -84,7 +76,7 @@ export function CategoryCard({ category, tweets, formatCategoryTitle }: Category
                     className="hs-tooltip-content hs-tooltip-shown:opacity-100 hs-tooltip-shown:visible opacity-0 transition-opacity inline-block absolute invisible z-10 py-2 px-3 bg-gray-900 text-xs font-medium text-white rounded-md shadow-lg dark:bg-neutral-700 max-w-xs"
                     role="tooltip"
                   >
-                    {(isTop25|| isLasMasNuevas || isOtrosAutores)
+                    {isVirtual
                       ? `Turra publicada hace ${formatRelativeTime(item.time, true)}. (${item.stats.likes} likes, ${item.stats.retweets} retweets, ${item.stats.quotetweets} quotetweets)`
                       : `Turra publicada hace ${formatRelativeTime(item.time, true)}`
                     }
@@ -92,7 +84,7 @@ export function CategoryCard({ category, tweets, formatCategoryTitle }: Category
                 </span>
               </div>
               <a
-                href={`/turra/${item.id}`}
+                href={getTurraPath(item.id, item.summary)}
                 className="text-gray-700 hover:text-whiskey-900 text-sm transition-colors duration-200 hover:underline line-clamp-2"
               >
                 {item.summary}
@@ -102,10 +94,10 @@ export function CategoryCard({ category, tweets, formatCategoryTitle }: Category
         </div>
       </div>
 
-      {!(isTop25 ||isLasMasNuevas || isOtrosAutores) && (
+      {!isVirtual && (
         <div className="pt-3 mt-2 border-t border-whiskey-100">
           <a
-            href={`/${formatCategoryUrl(category)}`}
+            href={categoryUrl}
             className="inline-flex items-center text-whiskey-600 hover:text-whiskey-800 text-sm font-medium group-hover:translate-x-1 transition-all duration-200"
           >
             Ver más <span className="ml-1.5">→</span>
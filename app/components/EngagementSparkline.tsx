@@ -0,0 +1,56 @@
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { getSnapshotEngagement } from "../../infrastructure/utils/stats-utils";
+import type { StatsSnapshot } from "../../infrastructure/types";
+
+interface EngagementSparklineProps {
+  snapshots: StatsSnapshot[];
+  width?: number;
+  height?: number;
+}
+
+function formatDay(date: string): string {
+  return format(new Date(`${date}T00:00:00Z`), "d MMM yyyy", { locale: es });
+}
+
+/** Engagement of the first tweet over time, from the stats history; hidden with fewer than two snapshots */
+export function EngagementSparkline({ snapshots, width = 96, height = 24 }: EngagementSparklineProps) {
+  if (snapshots.length < 2) return null;
+
+  const values = snapshots.map(getSnapshotEngagement);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const points = values.map((value, index) => {
+    const x = (index / (values.length - 1)) * (width - 2) + 1;
+    const y = height - 1 - ((value - min) / range) * (height - 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const first = snapshots[0]!;
+  const last = snapshots[snapshots.length - 1]!;
+  const growth = values[values.length - 1]! - values[0]!;
+  const label = `${growth >= 0 ? '+' : ''}${growth.toLocaleString('es-ES')} interacciones entre el ${formatDay(first.date)} y el ${formatDay(last.date)}`;
+
+  return (
+    <span className="inline-flex items-center gap-1.5" title={label}>
+      <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        role="img"
+        aria-label={label}
+        className="text-brand"
+      >
+        <polyline
+          points={points.join(' ')}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+      </svg>
+      <span className="text-xs">{growth >= 0 ? '+' : ''}{growth.toLocaleString('es-ES')}</span>
+    </span>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+import { useId, useState } from "react";
+import Link from "next/link";
+
+/** Longer definitions are cut in the tooltip; the glossary page has the rest */
+const MAX_DEFINITION_LENGTH = 220;
+
+interface GlossaryTooltipProps {
+  /** Term as written in the tweet */
+  text: string;
+  name: string;
+  definition: string;
+  /** Glossary page of the term */
+  path: string;
+}
+
+/** A glossary term in tweet text; hovering or tapping it shows its definition */
+export function GlossaryTooltip({ text, name, definition, path }: GlossaryTooltipProps) {
+  const [open, setOpen] = useState(false);
+  const tooltipId = useId();
+  const shortDefinition = definition.length > MAX_DEFINITION_LENGTH
+    ? `${definition.slice(0, MAX_DEFINITION_LENGTH - 1).trimEnd()}…`
+    : definition;
+
+  return (
+    <span
+      className="relative"
+      onMouseEnter={() => setOpen(true)}
+      onMouseLeave={() => setOpen(false)}
+      onBlur={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget)) setOpen(false);
+      }}
+      onKeyDown={(event) => {
+        if (event.key === "Escape") setOpen(false);
+      }}
+    >
+      <button
+        type="button"
+        aria-expanded={open}
+        aria-describedby={open ? tooltipId : undefined}
+        onClick={() => setOpen(true)}
+        className="underline decoration-dotted decoration-whiskey-400 underline-offset-4 cursor-help"
+      >
+        {text}
+      </button>
+      {open && (
+        <span
+          id={tooltipId}
+          role="tooltip"
+          className="absolute left-0 top-full z-20 mt-1 block w-72 max-w-[80vw] rounded-lg border border-whiskey-200 bg-white p-3 text-left text-sm shadow-lg"
+        >
+          <span className="block font-semibold text-whiskey-900 mb-1">{name}</span>
+          <span className="block leading-snug text-whiskey-700">{shortDefinition}</span>
+          <Link href={path} className="mt-2 inline-block text-brand hover:text-brand-dark underline">
+            Ver en el glosario
+          </Link>
+        </span>
+      )}
+    </span>
+  );
+}
@@ -9,6 +9,7 @@ import Link from 'next/link';
 const NAVIGATION_LINKS = [
   { href: "/glosario", label: "Glosario" },
   { href: "/biblioteca", label: "Biblioteca" },
+  { href: "/archivo", label: "Archivo" },
   { href: "/hall-of-fame", label: "Hall of Fame" },
 ] as const;
 
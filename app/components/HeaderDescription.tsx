@@ -1,4 +1,4 @@
-import { AUTHORS } from "@/infrastructure/constants";
+import { AUTHORS } from "@/infrastructure/authors";
 
 interface HeaderDescriptionProps {
   totalTweets: number;
@@ -0,0 +1,19 @@
+import type { JsonLdObject } from "../../infrastructure/structured-data";
+
+interface JsonLdProps {
+  data: JsonLdObject | JsonLdObject[] | null;
+}
+
+/** Schema.org structured data for search engines */
+export function JsonLd({ data }: JsonLdProps) {
+  if (!data) return null;
+
+  // Escape `<` so a value containing `</script>` cannot close the tag
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: json }}
+    />
+  );
+}
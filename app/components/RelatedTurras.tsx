@@ -0,0 +1,29 @@
+import Link from 'next/link';
+import { RelatedTurra } from '../../infrastructure/related';
+
+interface RelatedTurrasProps {
+  turras: RelatedTurra[];
+}
+
+export function RelatedTurras({ turras }: RelatedTurrasProps) {
+  if (turras.length === 0) return null;
+
+  return (
+    <div className="space-y-4 bg-white/50 backdrop-blur-sm p-4 rounded-lg border border-whiskey-200 shadow-sm">
+      <h2 className="text-lg font-bold text-whiskey-900">Turras relacionadas</h2>
+      <ul className="space-y-3">
+        {turras.map((turra) => (
+          <li key={turra.id}>
+            <Link
+              href={turra.path}
+              className="block rounded-md p-2 -mx-2 hover:bg-whiskey-50 transition-colors"
+            >
+              <span className="block text-sm text-whiskey-900 hover:text-brand">{turra.summary}</span>
+              <span className="block text-xs text-whiskey-600 mt-1">{turra.readingTime} min de lectura</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
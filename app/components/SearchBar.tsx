@@ -2,37 +2,25 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { FaSearch, FaTimes } from 'react-icons/fa';
-import algoliasearch from 'algoliasearch';
-import { SearchBarProps } from '../../infrastructure/types';
-
-const client = algoliasearch('WU4KEG8DAS', '7bd2f67692c4d35a0c9a5d7e005deb1e');
-const index = client.initIndex('turras');
-
-interface SearchResult {
-  id: string;
-  time: string;
-  objectID: string;
-  summary?: string;
-  _highlightResult: {
-    tweet: {
-      value: string;
-      matchLevel: string;
-      fullyHighlighted: boolean;
-      matchedWords: string[];
-    };
-  };
-}
+import { SearchApiResponse, SearchBarProps, SearchThreadResult } from '../../infrastructure/types';
+import { buildSearchParams } from '../../infrastructure/utils/search-params';
+import SearchResultItem from './SearchResultItem';
 
 export default function SearchBar({ className = '', placeholder, onSearch: onSearchCallback, initialValue }: SearchBarProps): React.ReactElement {
   const [inputText, setInputText] = useState(initialValue || '');
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchResults, setSearchResults] = useState<SearchThreadResult[]>([]);
   const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  // Request for the latest input; older ones are aborted so they cannot overwrite its results
+  const requestRef = useRef<AbortController | null>(null);
   const modalInputRef = useRef<HTMLInputElement>(null);
   const DEBOUNCE_MIN_MS = 300;
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
   const onSearch = async (searchValue: string): Promise<void> => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+
     if (searchValue === '') {
       setIsLoading(false);
       setIsModalOpen(false);
@@ -40,28 +28,21 @@ export default function SearchBar({ className = '', placeholder, onSearch: onSea
       return;
     }
 
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     try {
       setIsLoading(true);
-      const { hits } = await index.search<SearchResult>(searchValue);
-      
-      const summaryPromises = hits.map(async (hit) => {
-        const tweetId = hit.id.split('-')[0];
-        const response = await fetch(`/api/search?q=${tweetId}`);
-        const data = await response.json();
-        return {
-          ...hit,
-          summary: data.summary
-        };
-      });
-      
-      const resultsWithSummary = await Promise.all(summaryPromises);
-      setSearchResults(resultsWithSummary);
+      const response = await fetch(`/api/search?q=${encodeURIComponent(searchValue)}`, { signal: controller.signal });
+      const { data }: SearchApiResponse = await response.json();
+      setSearchResults(data ?? []);
       setIsLoading(false);
       setIsModalOpen(true);
       
       // Call external callback if provided
       onSearchCallback?.(searchValue);
     } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
       // Only log errors in development environment
       if (process.env.NODE_ENV === 'development') {
         console.error('Search error:', error);
@@ -101,6 +82,12 @@ export default function SearchBar({ className = '', placeholder, onSearch: onSea
     };
   }, [isModalOpen]);
 
+  // Drop the pending search when the bar unmounts
+  useEffect(() => () => {
+    clearTimeout(debounceRef.current);
+    requestRef.current?.abort();
+  }, []);
+
   useEffect(() => {
     if (isModalOpen && modalInputRef.current) {
       modalInputRef.current.focus();
@@ -181,29 +168,7 @@ export default function SearchBar({ className = '', placeholder, onSearch: onSea
             
             <div className="overflow-y-auto max-h-[calc(80vh-12rem)] scrollbar-thin scrollbar-thumb-whiskey-300 scrollbar-track-whiskey-100">
               {searchResults.map((result) => (
-                <div
-                  key={result.id}
-                  className="p-4 hover:bg-whiskey-50 cursor-pointer border-b border-whiskey-100 last:border-b-0"
-                  onClick={() => {
-                    window.location.href = `/turra/${result.id.split('-')[0]}#${result.id.split('-')[1]}`;
-                  }}
-                >
-                  {result.summary && (
-                    <div className="text-base text-whiskey-900 mb-3 leading-relaxed font-bold">
-                      {result.summary}
-                    </div>
-                  )}
-                  <div
-                    dangerouslySetInnerHTML={{
-                      __html: result._highlightResult.tweet.value,
-                    }}
-                    className="text-sm text-whiskey-800 mb-2 [&>em]:text-red-500 [&>em]:not-italic"
-                  />
-                  <div className="text-xs text-whiskey-500">
-                    Fecha de publicación:{' '}
-                    {new Intl.DateTimeFormat('es').format(new Date(result.time))}
-                  </div>
-                </div>
+                <SearchResultItem key={result.threadId} result={result} />
               ))}
               {searchResults.length === 0 && (
                 <div className="p-4 text-center text-whiskey-500">
@@ -211,6 +176,17 @@ export default function SearchBar({ className = '', placeholder, onSearch: onSea
                 </div>
               )}
             </div>
+
+            {searchResults.length > 0 && (
+              <div className="p-3 border-t border-whiskey-200 text-center">
+                <a
+                  href={`/buscar?${buildSearchParams(inputText, {})}`}
+                  className="text-sm font-medium text-whiskey-700 hover:text-whiskey-900"
+                >
+                  Ver todos los resultados y filtrar
+                </a>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,47 @@
+import { SearchThreadResult } from '../../infrastructure/types';
+import { getCategoryName } from '../../infrastructure/categories';
+import { getTweetAnchor } from '../../infrastructure/utils/id-utils';
+import { getTurraPath } from '../../infrastructure/utils/text-utils';
+
+interface SearchResultItemProps {
+  result: SearchThreadResult;
+}
+
+/** A thread matching a search with its best matching tweets */
+export default function SearchResultItem({ result }: SearchResultItemProps): React.ReactElement {
+  const turraPath = getTurraPath(result.threadId, result.summary);
+  return (
+    <div className="p-4 border-b border-whiskey-100 last:border-b-0">
+      <a
+        href={turraPath}
+        dangerouslySetInnerHTML={{
+          __html: result.highlightedSummary || result.summary,
+        }}
+        className="block text-base text-whiskey-900 mb-1 leading-relaxed font-bold hover:text-whiskey-700 [&>em]:text-red-500 [&>em]:not-italic"
+      />
+      <div className="text-xs text-whiskey-500 mb-3">
+        {result.author} ·{' '}
+        {new Intl.DateTimeFormat('es').format(new Date(result.time))}
+        {result.categories.length > 0 && ` · ${result.categories.map(getCategoryName).join(', ')}`}
+      </div>
+      <ul className="space-y-2">
+        {result.hits.map((hit) => (
+          <li key={hit.objectID}>
+            <a
+              href={`${turraPath}#${getTweetAnchor(hit.tweetId)}`}
+              dangerouslySetInnerHTML={{
+                __html: hit.snippet,
+              }}
+              className="block p-2 -mx-2 rounded text-sm text-whiskey-800 hover:bg-whiskey-50 [&>em]:text-red-500 [&>em]:not-italic"
+            />
+          </li>
+        ))}
+      </ul>
+      {result.matches > result.hits.length && (
+        <div className="text-xs text-whiskey-500 mt-2">
+          y {result.matches - result.hits.length} tweets más en esta turra
+        </div>
+      )}
+    </div>
+  );
+}
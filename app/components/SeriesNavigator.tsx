@@ -0,0 +1,57 @@
+import Link from 'next/link';
+import { FaArrowLeft, FaArrowRight } from 'react-icons/fa';
+import { TweetProvider } from '../../infrastructure/TweetProvider';
+import { getSeriesPath } from '../../infrastructure/constants';
+import type { SeriesPosition } from '../../infrastructure/types';
+
+/** "Parte X de N" box with links to the series and its previous and next parts */
+export function SeriesNavigator({ position }: { position: SeriesPosition }) {
+  const tweetProvider = new TweetProvider();
+  const { series, part, previous, next } = position;
+
+  return (
+    <nav
+      aria-label={`Serie ${series.title}`}
+      className="my-4 rounded-lg border border-whiskey-200 bg-whiskey-50 p-4 text-sm"
+    >
+      <p className="text-whiskey-700 mb-3">
+        <span className="font-semibold text-whiskey-900">
+          Parte {part} de {series.parts.length}
+        </span>{' '}
+        de la serie{' '}
+        <Link
+          href={getSeriesPath(series.slug)}
+          className="font-medium text-brand hover:text-whiskey-950 underline"
+        >
+          {series.title}
+        </Link>
+      </p>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {previous ? (
+          <Link
+            href={tweetProvider.getTurraPath(previous.id)}
+            className="flex items-start gap-2 rounded-md p-2 text-whiskey-800 hover:bg-whiskey-100 transition-colors"
+          >
+            <FaArrowLeft className="mt-1 shrink-0 text-xs" />
+            <span>
+              <span className="block text-xs text-whiskey-600">Anterior</span>
+              {previous.title}
+            </span>
+          </Link>
+        ) : <span />}
+        {next && (
+          <Link
+            href={tweetProvider.getTurraPath(next.id)}
+            className="flex items-start justify-end gap-2 rounded-md p-2 text-right text-whiskey-800 hover:bg-whiskey-100 transition-colors"
+          >
+            <span>
+              <span className="block text-xs text-whiskey-600">Siguiente</span>
+              {next.title}
+            </span>
+            <FaArrowRight className="mt-1 shrink-0 text-xs" />
+          </Link>
+        )}
+      </div>
+    </nav>
+  );
+}
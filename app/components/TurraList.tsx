@@ -0,0 +1,45 @@
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ArchiveTurra } from '../../infrastructure/archive';
+import { getCategoryName, getCategorySlug } from '../../infrastructure/categories';
+
+/** Turras with their date, summary, categories and engagement */
+export function TurraList({ turras }: { turras: ArchiveTurra[] }) {
+  return (
+    <ul className="divide-y divide-whiskey-100">
+      {turras.map((turra) => (
+        <li key={turra.id} className="py-4">
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-whiskey-600 mb-1">
+            <time dateTime={turra.time}>
+              {format(new Date(turra.time), "d 'de' MMMM, yyyy", { locale: es })}
+            </time>
+            <span className="w-1 h-1 rounded-full bg-whiskey-300" />
+            <span title="Likes, retweets y quotetweets del primer tweet">
+              {turra.engagement.toLocaleString('es-ES')} interacciones
+            </span>
+          </div>
+          <Link
+            href={turra.path}
+            className="block text-whiskey-900 hover:text-whiskey-700 transition-colors duration-200"
+          >
+            {turra.summary}
+          </Link>
+          {turra.categories.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {turra.categories.map((category) => (
+                <Link
+                  key={category}
+                  href={`/${getCategorySlug(category)}`}
+                  className="py-0.5 px-2 rounded-full text-xs font-medium bg-whiskey-100 text-whiskey-800 hover:bg-whiskey-200 transition-colors"
+                >
+                  {getCategoryName(category)}
+                </Link>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
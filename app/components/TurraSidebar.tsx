@@ -1,4 +1,5 @@
 import { TweetProvider } from "../../infrastructure/TweetProvider";
+import { getRelatedTurras } from "../../infrastructure/related";
 import {
   TweetExam,
   Tweet,
@@ -7,6 +8,7 @@ import {
 import { TurraExam } from "./TurraExam";
 import { RelatedLinks } from "./RelatedLinks";
 import { TurraPodcast } from "./TurraPodcast";
+import { RelatedTurras } from "./RelatedTurras";
 
 interface TurraSidebarProps {
   exam?: TweetExam;
@@ -24,11 +26,13 @@ export function TurraSidebar({ exam, thread }: TurraSidebarProps): React.ReactEl
     );
 
   const hasPodcast = thread[0] ? tweetProvider.hasPodcast(thread[0].id) : false;
+  const relatedTurras = thread[0] ? getRelatedTurras(thread[0].id) : [];
 
   return (
     <aside className="lg:col-span-4 space-y-8">
       {hasPodcast && thread[0] && <TurraPodcast tweetId={thread[0].id} />}
       <RelatedLinks enrichedData={enrichedData} thread={thread} />
+      <RelatedTurras turras={relatedTurras} />
       {exam && <TurraExam exam={exam} />}
     </aside>
   );
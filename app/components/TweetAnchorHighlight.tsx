@@ -0,0 +1,37 @@
+'use client'
+
+import { useEffect } from "react";
+
+const HIGHLIGHT_MS = 3000;
+
+/**
+ * Scrolls to the tweet named in the URL hash (`#t-{tweetId}`) and highlights
+ * it briefly. Runs again when the hash changes, as client-side navigation
+ * does not update `:target`.
+ */
+export function TweetAnchorHighlight() {
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const highlight = () => {
+      const hash = decodeURIComponent(window.location.hash.slice(1));
+      if (!hash.startsWith('t-')) return;
+      const element = document.getElementById(hash);
+      if (!element) return;
+
+      element.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      element.setAttribute('data-highlighted', '');
+      clearTimeout(timeout);
+      timeout = setTimeout(() => element.removeAttribute('data-highlighted'), HIGHLIGHT_MS);
+    };
+
+    highlight();
+    window.addEventListener('hashchange', highlight);
+    return () => {
+      window.removeEventListener('hashchange', highlight);
+      clearTimeout(timeout);
+    };
+  }, []);
+
+  return null;
+}
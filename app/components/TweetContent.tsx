@@ -1,11 +1,39 @@
+import { Fragment } from "react";
 import { FaTwitter } from "react-icons/fa";
 import { TweetProvider } from "../../infrastructure/TweetProvider";
+import { splitGlossaryTerms, type GlossaryMatcher } from "../../infrastructure/glossary";
 import { Tweet, EnrichedTweetMetadata, TweetContentProps } from "../../infrastructure/types";
 import Image from 'next/image';
 import { GifVideo } from "./GifVideo";
+import { TweetPermalink } from "./TweetPermalink";
+import { getTweetAnchor } from "../../infrastructure/utils/id-utils";
+import { GlossaryTooltip } from "./GlossaryTooltip";
+
+interface GlossaryTweetContentProps extends TweetContentProps {
+  /** Glossary terms to mark in the text, see getFirstGlossaryMentions */
+  glossary?: {
+    matcher: GlossaryMatcher;
+    slugs: ReadonlySet<string>;
+  };
+}
+
+export function TweetContent({ tweet, id, glossary }: GlossaryTweetContentProps) {
+  const renderGlossaryTerms = (text: string, pending: Set<string>): React.ReactNode => {
+    if (!glossary || pending.size === 0) return text;
+    return splitGlossaryTerms(text, glossary.matcher, pending).map((part, index) => part.entry ? (
+      <GlossaryTooltip
+        key={index}
+        text={part.text}
+        name={part.entry.name}
+        definition={part.entry.definition}
+        path={part.entry.path}
+      />
+    ) : part.text);
+  };
 
-export function TweetContent({ tweet, id }: TweetContentProps) {
   const renderMentions = (text: string): (string | React.ReactElement | null)[] => {
+    // Glossary terms still to mark in this tweet
+    const pendingTerms = new Set(glossary?.slugs);
     // Regex for URLs and mentions
     const regex = /(@\w+)|(https?:\/\/[^\s]+)/g;
     return text.split(regex).map((part, index) => {
@@ -43,7 +71,7 @@ export function TweetContent({ tweet, id }: TweetContentProps) {
           </a>
         );
       }
-      return part;
+      return <Fragment key={index}>{renderGlossaryTerms(part, pendingTerms)}</Fragment>;
     });
   };
 
@@ -321,7 +349,11 @@ export function TweetContent({ tweet, id }: TweetContentProps) {
     : fallbackEmbedRaw;
 
   return (
-    <div id={id}>
+    <div
+      id={getTweetAnchor(id)}
+      className="group relative scroll-mt-4 rounded-lg transition-colors duration-700 data-[highlighted]:bg-whiskey-100"
+    >
+      <TweetPermalink anchor={getTweetAnchor(id)} />
       <p className="text-lg leading-relaxed text-whiskey-800">
         {renderMentions(tweet.tweet)}
       </p>
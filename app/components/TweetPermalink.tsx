@@ -0,0 +1,42 @@
+'use client'
+
+import { useState } from "react";
+import { FaCheck, FaLink } from "react-icons/fa";
+
+interface TweetPermalinkProps {
+  /** Anchor of the tweet, without the leading `#` */
+  anchor: string;
+}
+
+/**
+ * Copy-link control shown on the left of a tweet when hovering it, like the
+ * block handles on lexical.dev
+ */
+export function TweetPermalink({ anchor }: TweetPermalinkProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async (event: React.MouseEvent<HTMLAnchorElement>) => {
+    event.preventDefault();
+    const url = `${window.location.origin}${window.location.pathname}#${anchor}`;
+    window.history.replaceState(null, '', `#${anchor}`);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard denied: the address bar already shows the link
+    }
+  };
+
+  return (
+    <a
+      href={`#${anchor}`}
+      onClick={copyLink}
+      aria-label={copied ? 'Enlace copiado' : 'Copiar enlace a este tweet'}
+      title={copied ? 'Enlace copiado' : 'Copiar enlace a este tweet'}
+      className="not-prose absolute right-0 top-1.5 lg:right-auto lg:-left-8 p-1 text-whiskey-400 opacity-60 transition-opacity hover:text-whiskey-700 focus:opacity-100 lg:opacity-0 lg:group-hover:opacity-100"
+    >
+      {copied ? <FaCheck className="text-sm" /> : <FaLink className="text-sm" />}
+    </a>
+  );
+}
@@ -0,0 +1,9 @@
+import { FEED_CONTENT_TYPES, createFeedResponse, getLatestFeed, renderJsonFeed } from '../../infrastructure/feeds';
+import { SITE_URL } from '../../infrastructure/constants';
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+export async function GET() {
+  return createFeedResponse(renderJsonFeed(getLatestFeed(), `${SITE_URL}/feed.json`), FEED_CONTENT_TYPES.json);
+}
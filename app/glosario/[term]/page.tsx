@@ -0,0 +1,146 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import Link from "next/link";
+import { TweetFacade } from "../../../infrastructure";
+import type { GlossaryEntry } from "../../../infrastructure/glossary";
+import { buildBreadcrumbJsonLd, buildDefinedTermJsonLd } from "../../../infrastructure/structured-data";
+import { TurraList } from "../../components/TurraList";
+import { JsonLd } from "../../components/JsonLd";
+
+interface Params {
+  params: Promise<{
+    term: string;
+  }>;
+}
+
+/** Turras listed on a term page, those mentioning it most */
+const MAX_TURRAS = 20;
+
+async function getGlossaryEntry(slug: string): Promise<{ entry: GlossaryEntry; entries: GlossaryEntry[] } | null> {
+  const entries = await new TweetFacade().getGlossaryEntries();
+  const entry = entries.find((candidate) => candidate.slug === slug);
+  return entry ? { entry, entries } : null;
+}
+
+/** Source text with its URLs as links */
+function SourceText({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(https?:\/\/\S+)/).map((part, index) => index % 2 === 1 ? (
+        <a key={index} href={part} target="_blank" rel="noopener noreferrer" className="text-brand hover:text-brand-dark underline break-all">
+          {part}
+        </a>
+      ) : part)}
+    </>
+  );
+}
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { term } = await params;
+  const data = await getGlossaryEntry(term);
+  if (!data) {
+    return { title: "Not Found" };
+  }
+
+  const { entry } = data;
+  return {
+    title: `${entry.name}: definición - Glosario CPS`,
+    description: entry.definition,
+    alternates: {
+      canonical: entry.path,
+    },
+    openGraph: {
+      title: `${entry.name} - Glosario CPS`,
+      description: entry.definition,
+      images: ['/api/og/glosario'],
+    },
+  };
+}
+
+export async function generateStaticParams() {
+  const entries = await new TweetFacade().getGlossaryEntries();
+  return entries.map((entry) => ({
+    term: entry.slug,
+  }));
+}
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+export default async function GlossaryTermPage({ params }: Params) {
+  const { term } = await params;
+  const data = await getGlossaryEntry(term);
+  if (!data) {
+    notFound();
+  }
+
+  const { entry, entries } = data;
+  const related = entry.related
+    .map((slug) => entries.find((candidate) => candidate.slug === slug))
+    .filter((candidate): candidate is GlossaryEntry => candidate !== undefined);
+  const turras = await new TweetFacade().getGlossaryTermTurras(entry.slug);
+
+  return (
+    <main className="max-w-4xl mx-auto px-4 py-8">
+      <JsonLd data={buildDefinedTermJsonLd(entry)} />
+      <JsonLd data={buildBreadcrumbJsonLd([
+        { name: "Glosario CPS", path: "/glosario" },
+        { name: entry.name, path: entry.path },
+      ])} />
+      <nav className="text-sm text-whiskey-600 mb-4">
+        <Link href="/glosario" className="hover:text-whiskey-900">
+          Glosario CPS
+        </Link>
+      </nav>
+
+      <h1 className="text-3xl font-bold text-whiskey-900 mb-2">{entry.name}</h1>
+      {entry.aliases.length > 0 && (
+        <p className="text-whiskey-600 mb-4">
+          También: {entry.aliases.map((alias, index) => (
+            <span key={alias}>
+              {index > 0 && ", "}
+              <em>{alias}</em>
+            </span>
+          ))}
+        </p>
+      )}
+
+      <p className="text-whiskey-800 leading-relaxed whitespace-pre-wrap mb-6">{entry.definition}</p>
+
+      {entry.source && (
+        <p className="text-sm text-whiskey-700 mb-6">
+          <span className="font-semibold">Fuente:</span> <SourceText text={entry.source} />
+        </p>
+      )}
+
+      {related.length > 0 && (
+        <section className="mb-8">
+          <h2 className="text-xl font-semibold text-whiskey-900 mb-3">Términos relacionados</h2>
+          <div className="flex flex-wrap gap-2">
+            {related.map((relatedEntry) => (
+              <Link
+                key={relatedEntry.slug}
+                href={relatedEntry.path}
+                className="py-1 px-3 rounded-full text-sm font-medium bg-whiskey-100 text-whiskey-800 hover:bg-whiskey-200 transition-colors"
+              >
+                {relatedEntry.name}
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {turras.length > 0 && (
+        <section>
+          <h2 className="text-xl font-semibold text-whiskey-900 mb-1">Turras donde aparece</h2>
+          <p className="text-sm text-whiskey-600 mb-2">
+            {turras.length > MAX_TURRAS
+              ? `Las ${MAX_TURRAS} que más lo mencionan de ${turras.length} turras`
+              : `${turras.length} ${turras.length === 1 ? "turra" : "turras"}`}
+          </p>
+          <TurraList turras={turras.slice(0, MAX_TURRAS)} />
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+import { useState } from "react";
+import Link from "next/link";
+import { FaSearch } from "react-icons/fa";
+import type { GlossaryEntry } from "../../../infrastructure/glossary";
+import { foldText } from "../../../infrastructure/SearchIndex";
+
+const LETTERS = [..."ABCDEFGHIJKLMNOPQRSTUVWXYZ", "#"];
+
+function getLetterId(letter: string): string {
+  return letter === "#" ? "letra-otros" : `letra-${letter.toLowerCase()}`;
+}
+
+function matchesQuery(entry: GlossaryEntry, query: string): boolean {
+  return [entry.term, ...entry.aliases, entry.definition].some((text) => foldText(text).includes(query));
+}
+
+/** Glossary table grouped by letter, with an A-Z jump bar and a filter */
+export function GlossaryIndex({ entries }: { entries: GlossaryEntry[] }) {
+  const [query, setQuery] = useState("");
+
+  const foldedQuery = foldText(query.trim());
+  const visibleEntries = foldedQuery ? entries.filter((entry) => matchesQuery(entry, foldedQuery)) : entries;
+  const groups = LETTERS
+    .map((letter) => ({ letter, entries: visibleEntries.filter((entry) => entry.letter === letter) }))
+    .filter((group) => group.entries.length > 0);
+  const visibleLetters = new Set(groups.map((group) => group.letter));
+
+  return (
+    <>
+      <div className="sticky top-0 z-10 bg-white/95 backdrop-blur py-3 mb-6 space-y-3">
+        <div className="relative">
+          <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-whiskey-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Filtrar términos..."
+            aria-label="Filtrar términos del glosario"
+            className="w-full pl-10 pr-4 py-2 rounded-lg border border-whiskey-200 focus:outline-none focus:ring-2 focus:ring-whiskey-400"
+          />
+        </div>
+        <nav aria-label="Índice alfabético" className="flex flex-wrap gap-1">
+          {LETTERS.map((letter) => visibleLetters.has(letter) ? (
+            <a
+              key={letter}
+              href={`#${getLetterId(letter)}`}
+              className="w-8 h-8 flex items-center justify-center rounded text-sm font-semibold text-whiskey-800 hover:bg-whiskey-100"
+            >
+              {letter}
+            </a>
+          ) : (
+            <span
+              key={letter}
+              aria-hidden="true"
+              className="w-8 h-8 flex items-center justify-center text-sm text-whiskey-200"
+            >
+              {letter}
+            </span>
+          ))}
+        </nav>
+      </div>
+
+      {groups.length === 0 && (
+        <p className="text-whiskey-700">Ningún término coincide con &quot;{query}&quot;.</p>
+      )}
+
+      <div className="space-y-8">
+        {groups.map((group) => (
+          <section key={group.letter} id={getLetterId(group.letter)} className="scroll-mt-32">
+            <h2 className="text-2xl font-bold text-whiskey-800 mb-3">{group.letter}</h2>
+            <div className="overflow-x-auto shadow-lg rounded-lg">
+              <table className="min-w-full table-auto">
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {group.entries.map((entry) => (
+                    <tr key={entry.slug} className="hover:bg-gray-50 transition-colors duration-200">
+                      <td className="px-6 py-4 text-sm font-medium w-48 align-top">
+                        <Link href={entry.path} className="text-whiskey-800 hover:text-brand underline-offset-2 hover:underline">
+                          {entry.name}
+                        </Link>
+                        {entry.aliases.length > 0 && (
+                          <span className="block text-xs font-normal text-whiskey-600 mt-1">
+                            {entry.aliases.join(", ")}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700 whitespace-pre-wrap">
+                        {entry.definition}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ))}
+      </div>
+    </>
+  );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import { TurraNode } from '@/infrastructure/types';
+import { getTurraPath } from '@/infrastructure/utils/text-utils';
 import { FaSearchPlus, FaSearchMinus, FaExpand, FaTimes } from 'react-icons/fa';
 
 interface GraphNode extends TurraNode {
@@ -22,11 +23,15 @@ export default function GraphVisualization({ nodes }: { nodes: GraphNode[] }) {
     const color = d3.scaleOrdinal(d3.schemeCategory10);
     const categories = Array.from(new Set(nodes.map(node => node.categories[0])));
 
+    // Edges are listed on both nodes; draw each one once
     const links: { source: number; target: number }[] = [];
+    const linkKeys = new Set<string>();
     nodes.forEach((node, index) => {
       node.related_threads.forEach(relatedId => {
         const targetIndex = nodes.findIndex(n => n.id === relatedId);
-        if (targetIndex !== -1) {
+        const key = [index, targetIndex].sort((a, b) => a - b).join('-');
+        if (targetIndex !== -1 && !linkKeys.has(key)) {
+          linkKeys.add(key);
           links.push({ source: index, target: targetIndex });
         }
       });
@@ -96,7 +101,7 @@ export default function GraphVisualization({ nodes }: { nodes: GraphNode[] }) {
           <p style="color: #666;"><i>Likes:</i> ${d.likes}</p>
           <p style="color: #666;"><i>Replies:</i> ${d.replies}</p>
           <p style="color: #666;"><i>Bookmarks:</i> ${d.bookmarks}</p>
-          <p><a href="/turra/${d.id}" target="_blank" style="color: #007bff; text-decoration: underline;">Abrir en nueva pestaña</a></p>
+          <p><a href="${getTurraPath(d.id, d.summary)}" target="_blank" style="color: #007bff; text-decoration: underline;">Abrir en nueva pestaña</a></p>
         `)
         .style("left", `${event.pageX - 100}px`)
         .style("top", `${event.pageY - 200}px`)
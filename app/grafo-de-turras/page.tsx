@@ -3,7 +3,7 @@ import GraphVisualization from './GraphVisualization';
 import { FaArrowLeft, FaQuestionCircle } from "react-icons/fa";
 import Link from 'next/link';
 import { Metadata } from 'next';
-import { AUTHORS } from '@/infrastructure/constants';
+import { AUTHORS } from '@/infrastructure/authors';
 
 export default async function GraphPage() {
   const tweetProvider = new TweetProvider();
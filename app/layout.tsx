@@ -4,7 +4,8 @@ import PrelineScript from "./components/PrelineScript";
 import Header from '@/app/components/Header';
 import Footer from '@/app/components/Footer';
 import "./globals.css";
-import { AUTHORS } from '../infrastructure/constants';
+import { SITE_NAME, SITE_URL } from '../infrastructure/constants';
+import { AUTHORS } from '../infrastructure/authors';
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -18,14 +19,14 @@ const geistMono = Geist_Mono({
 
 export const metadata: Metadata = {
   metadataBase: new URL(
-    process.env.NODE_ENV === 'development' ? 'http://localhost:3000' : 'https://turrero.vercel.app'
+    process.env.NODE_ENV === 'development' ? 'http://localhost:3000' : SITE_URL
   ),
   title: AUTHORS.MAIN,
   description: `Biblioteca de hilos de ${AUTHORS.MAIN}`,
   openGraph: {
     title: `El Turrero Post - Las turras de ${AUTHORS.MAIN}`,
     description: `Colección de turras de ${AUTHORS.MAIN} sobre resolución de problemas complejos, estrategia y más.`,
-    url: 'https://turrero.vercel.app',
+    url: SITE_URL,
     siteName: 'El Turrero Post',
     locale: 'es_ES',
     type: 'website',
@@ -41,7 +42,17 @@ export const metadata: Metadata = {
   robots: {
     index: true,
     follow: true
-  }
+  },
+  alternates: {
+    types: {
+      'application/rss+xml': [
+        { url: '/feed.xml', title: `${SITE_NAME} (RSS)` },
+        { url: '/podcast.xml', title: `${SITE_NAME} (Podcast)` },
+      ],
+      'application/atom+xml': [{ url: '/atom.xml', title: `${SITE_NAME} (Atom)` }],
+      'application/feed+json': [{ url: '/feed.json', title: `${SITE_NAME} (JSON Feed)` }],
+    },
+  },
 };
 
 export const viewport = {
@@ -1,15 +1,18 @@
 import React from 'react';
-import { TweetFacade } from "../infrastructure";
+import { TweetFacade, getCategoryName } from "../infrastructure";
 import { CategoryCard } from './components/CategoryCard';
 import { AdvertisementCard } from './components/AdvertisementCard';
 import { HeaderDescription } from './components/HeaderDescription';
-import { AUTHORS } from '@/infrastructure/constants';
+import { AUTHOR_HANDLES } from '@/infrastructure/constants';
 
 async function getData() {
   const tweetFacade = new TweetFacade();
   const allTweets = await tweetFacade.tweetProvider.getAllTweets();
   const tweets = allTweets.flat();
-  const categories = tweetFacade.getCategories();
+  const trendingTweets = tweetFacade.tweetProvider.getTrendingTweets();
+  // Trending needs at least two stats snapshots; hide the card until there are some
+  const categories = tweetFacade.getCategories()
+    .filter(category => category !== 'en-tendencia' || trendingTweets.length > 0);
   const tweetsPerCategory = await Promise.all(categories.map(async category => {
     if (category === 'top-25-turras') {
       return tweetFacade.tweetProvider.getTop25Tweets()
@@ -27,8 +30,16 @@ async function getData() {
           engagement: 0
         }));
     }
+    if (category === 'en-tendencia') {
+      return trendingTweets
+        .map(tweet => ({
+          ...tweet,
+          summary: tweetFacade.tweetProvider.getSummaryById(tweet.id),
+          engagement: 0
+        }));
+    }
     if (category === 'otros-autores') {
-      return tweetFacade.tweetProvider.filterAvoidTweetsByAuthor(AUTHORS.RECUENCO)
+      return tweetFacade.tweetProvider.filterAvoidTweetsByAuthor(AUTHOR_HANDLES.RECUENCO)
         .map(tweet => ({
           ...tweet,
           summary: tweetFacade.tweetProvider.getSummaryById(tweet.id),
@@ -58,11 +69,7 @@ async function getData() {
 }
 
 function formatCategoryTitle(category: string): string {
-  return category
-    .replace(/-/g, ' ')
-    .split(' ')
-    .map((word, index) => index === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word.toLowerCase())
-    .join(' ');
+  return getCategoryName(category);
 }
 
 export default async function Home() {
@@ -0,0 +1,13 @@
+import { FEED_CONTENT_TYPES, createFeedResponse } from '../../infrastructure/feeds';
+import { getPodcastEpisodes, renderPodcastFeed } from '../../infrastructure/podcast';
+import { SITE_URL } from '../../infrastructure/constants';
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+export async function GET() {
+  return createFeedResponse(
+    renderPodcastFeed(getPodcastEpisodes(), `${SITE_URL}/podcast.xml`),
+    FEED_CONTENT_TYPES.rss
+  );
+}
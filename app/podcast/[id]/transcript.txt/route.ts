@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getPodcastEpisodes, getPodcastTranscript } from '../../../../infrastructure/podcast';
+
+export const dynamic = 'force-static';
+
+export async function generateStaticParams() {
+  return getPodcastEpisodes()
+    .filter((episode) => episode.transcriptUrl)
+    .map((episode) => ({ id: episode.id }));
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const transcript = getPodcastTranscript(id);
+
+  if (transcript === null) {
+    return new NextResponse(null, { status: 404 });
+  }
+
+  return new NextResponse(transcript, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'public, max-age=86400, s-maxage=604800',
+    },
+  });
+}
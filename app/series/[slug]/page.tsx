@@ -0,0 +1,100 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import Link from "next/link";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { TweetProvider } from "../../../infrastructure/TweetProvider";
+import { getSeriesPath } from "../../../infrastructure/constants";
+import { buildBreadcrumbJsonLd } from "../../../infrastructure/structured-data";
+import { JsonLd } from "../../components/JsonLd";
+
+interface Params {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { slug } = await params;
+  const series = new TweetProvider().getSeriesBySlug(slug);
+  if (!series) {
+    return { title: "Not Found" };
+  }
+
+  return {
+    title: series.collection
+      ? `${series.title}: ${series.parts.length} turras - El Turrero Post`
+      : `${series.title}: serie de ${series.parts.length} turras - El Turrero Post`,
+    description: series.description,
+    alternates: {
+      canonical: getSeriesPath(series.slug),
+    },
+    openGraph: {
+      title: series.title,
+      description: series.description,
+    },
+  };
+}
+
+export async function generateStaticParams() {
+  return new TweetProvider().getAllSeries().map((series) => ({
+    slug: series.slug,
+  }));
+}
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+export default async function SeriesPage({ params }: Params) {
+  const { slug } = await params;
+  const tweetProvider = new TweetProvider();
+  const series = tweetProvider.getSeriesBySlug(slug);
+  if (!series) {
+    notFound();
+  }
+
+  return (
+    <main className="max-w-4xl mx-auto px-4 py-8">
+      <JsonLd data={buildBreadcrumbJsonLd([
+        { name: "Salón de la fama", path: "/hall-of-fame" },
+        { name: series.title, path: getSeriesPath(series.slug) },
+      ])} />
+      <nav className="text-sm text-whiskey-600 mb-4">
+        <Link href="/hall-of-fame" className="hover:text-whiskey-900">
+          Salón de la fama
+        </Link>
+      </nav>
+
+      <h1 className="text-3xl font-bold text-whiskey-900 mb-3">
+        <span className="text-brand">#</span> {series.title}
+      </h1>
+      <p className="text-whiskey-700 leading-relaxed mb-8">{series.description}</p>
+
+      <ol className="space-y-4">
+        {series.parts.map((part, index) => {
+          const mainTweet = tweetProvider.getTweetById(part.id);
+          return (
+            <li key={part.id} className="flex gap-4 bg-white rounded-lg shadow-sm border border-whiskey-100 p-4">
+              {!series.collection && (
+                <span className="text-2xl font-bold text-whiskey-300 leading-none">{index + 1}</span>
+              )}
+              <div>
+                <Link
+                  href={tweetProvider.getTurraPath(part.id)}
+                  className="font-medium text-whiskey-900 hover:text-brand transition-colors"
+                >
+                  {part.title}
+                </Link>
+                {mainTweet && (
+                  <time dateTime={mainTweet.time} className="block text-sm text-whiskey-600 mt-1">
+                    {format(new Date(mainTweet.time), "d 'de' MMMM, yyyy", { locale: es })}
+                  </time>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </main>
+  );
+}
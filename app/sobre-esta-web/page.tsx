@@ -1,4 +1,4 @@
-import { AUTHORS } from '@/infrastructure/constants';
+import { AUTHORS } from '@/infrastructure/authors';
 import Image from 'next/image';
 
 export default function SobreEstaWeb() {
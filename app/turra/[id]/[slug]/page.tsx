@@ -0,0 +1,243 @@
+import { notFound, permanentRedirect } from "next/navigation";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { FaArrowLeft } from "react-icons/fa";
+import { TweetProvider } from "../../../../infrastructure/TweetProvider";
+import { TweetContent } from "../../../components/TweetContent";
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { TurraSidebar } from '../../../components/TurraSidebar';
+import { getAuthorHandle, getAuthorPath } from "@/infrastructure/constants";
+import { AUTHORS } from "@/infrastructure/authors";
+import { calculateReadingTime, slugify } from "@/infrastructure/utils/text-utils";
+import { getCategoryName, getCategorySlug } from "@/infrastructure/categories";
+import { extractThreadId, getTweetAnchor, isValidTwitterId, normalizeId } from "@/infrastructure/utils/id-utils";
+import { TweetAnchorHighlight } from "../../../components/TweetAnchorHighlight";
+import { JsonLd } from "../../../components/JsonLd";
+import { SeriesNavigator } from "../../../components/SeriesNavigator";
+import { EngagementSparkline } from "../../../components/EngagementSparkline";
+import { getPodcastEpisode } from "@/infrastructure/podcast";
+import { TweetFacade } from "@/infrastructure";
+import { getFirstGlossaryMentions } from "@/infrastructure/glossary";
+import {
+  buildArticleJsonLd,
+  buildPodcastEpisodeJsonLd,
+  buildQuizJsonLd,
+  JsonLdObject,
+} from "@/infrastructure/structured-data";
+
+interface Params {
+  params: Promise<{
+    id: string;
+    slug: string;
+  }>;
+}
+
+async function getTweetData(id: string) {
+  if (!isValidTwitterId(id)) return null;
+
+  const tweetProvider = new TweetProvider();
+  const thread = tweetProvider.getThread(id);
+  
+  if (thread.length === 0) return null;
+  
+  const mainTweet = thread[0];
+  if (!mainTweet) return null;
+  
+  return {
+    thread,
+    path: tweetProvider.getTurraPath(mainTweet.id),
+    summary: tweetProvider.getSummaryById(mainTweet.id),
+    categories: tweetProvider.getCategoryById(mainTweet.id),
+    exam: tweetProvider.getExamById(mainTweet.id),
+    series: tweetProvider.getSeriesForThread(mainTweet.id),
+    statsHistory: tweetProvider.getStatsHistory(mainTweet.id),
+    author: tweetProvider.getThreadAuthor(mainTweet),
+  };
+}
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const resolvedParams = await params;
+  const id = resolvedParams.id;
+  const data = await getTweetData(id);
+  
+  if (!data) {
+    return {
+      title: 'Not Found',
+    };
+  }
+
+  const ogImageUrl = `/api/og/${id}`;
+
+  return {
+    title: `${data.summary} - El Turrero Post - Las turras de ${AUTHORS.MAIN}`,
+    description: data.summary,
+    alternates: {
+      canonical: data.path,
+    },
+    openGraph: {
+      title: data.summary,
+      description: data.summary,
+      images: [ogImageUrl],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: data.summary,
+      description: data.summary,
+      images: [ogImageUrl],
+    }
+  };
+}
+
+export async function generateStaticParams() {
+  const tweetProvider = new TweetProvider();
+  const allThreads = tweetProvider.getAllTweets();
+  
+  return allThreads
+    .filter(thread => thread && thread[0])
+    .map(thread => ({
+      id: thread[0]!.id,
+      slug: slugify(tweetProvider.getSummaryById(thread[0]!.id)) || 'turra',
+    }));
+}
+
+export const dynamic = 'force-static';
+export const revalidate = 3600; // Revalidate every hour
+
+export default async function TurraPage({ params }: Params) {
+  const resolvedParams = await params;
+  const id = resolvedParams.id;
+
+  const data = await getTweetData(id);
+
+  if (!data) {
+    notFound();
+  }
+
+  const { thread, path, summary, categories, exam, series, statsHistory, author } = data;
+  const mainTweet = thread[0];
+  if (!mainTweet) {
+    notFound();
+  }
+
+  // Any tweet of the thread resolves to the canonical thread URL at that tweet,
+  // and outdated slugs to the current one
+  const requestedId = extractThreadId(normalizeId(id));
+  if (requestedId !== mainTweet.id) {
+    permanentRedirect(`${path}#${getTweetAnchor(requestedId)}`);
+  }
+  if (decodeURIComponent(resolvedParams.slug) !== path.split('/').pop()) {
+    permanentRedirect(path);
+  }
+
+  const words = summary.split(' ');
+  const coloredWords = words.slice(0, 2).join(' ');
+  const remainingWords = words.slice(2).join(' ');
+  const podcastEpisode = getPodcastEpisode(mainTweet.id);
+  const glossaryMatcher = await new TweetFacade().getGlossaryMatcher();
+  const glossaryMentions = glossaryMatcher ? getFirstGlossaryMentions(thread, glossaryMatcher) : new Map<string, Set<string>>();
+  const structuredData = [
+    buildArticleJsonLd({ thread, summary, path, categories, author }),
+    exam ? buildQuizJsonLd(exam, summary, path) : null,
+    podcastEpisode ? buildPodcastEpisodeJsonLd(podcastEpisode) : null,
+  ].filter((item): item is JsonLdObject => item !== null);
+  return (
+    <main className="min-h-screen">
+      <JsonLd data={structuredData} />
+      <TweetAnchorHighlight />
+      {/* Back Navigation */}
+      <nav className="border-whiskey-200">
+        <div className="container mx-auto px-4 py-3">
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 text-whiskey-700 hover:text-whiskey-900 transition-colors"
+          >
+            <FaArrowLeft className="text-sm" />
+            <span className="font-medium">Volver</span>
+          </Link>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 pt-2 pb-8 max-w-7xl">
+        {/* Article Header */}
+        <header className="mb-8">
+          <h1 className="text-4xl font-bold mb-3 text-whiskey-900 leading-tight">
+            <span style={{ color: '#a5050b' }}>{coloredWords}</span>{' '}
+            {remainingWords}
+          </h1>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-whiskey-600 mb-3">
+            <span>Por{" "}
+            <Link
+              href={getAuthorPath(getAuthorHandle(author.X))}
+              className="text-whiskey-700 hover:text-whiskey-900 font-medium"
+            >
+                {author.NAME} 
+             </Link>
+             </span>
+            <span className="w-1.5 h-1.5 rounded-full bg-whiskey-300" />
+            <time>
+              Publicado el{" "}
+              {format(new Date(mainTweet.time), "d 'de' MMMM, yyyy", { locale: es })}
+            </time>
+            <span className="w-1.5 h-1.5 rounded-full bg-whiskey-300" />
+            <span>
+              {calculateReadingTime(thread)} min de lectura
+            </span>
+            <span className="w-1.5 h-1.5 rounded-full bg-whiskey-300" />
+            <a
+              href={`${mainTweet.author}/status/${mainTweet.id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-whiskey-700 hover:text-whiskey-900 font-medium"
+            >
+              Leer en X.com
+            </a>
+            {statsHistory.length > 1 && (
+              <>
+                <span className="w-1.5 h-1.5 rounded-full bg-whiskey-300" />
+                <EngagementSparkline snapshots={statsHistory} />
+              </>
+            )}
+          </div>
+
+          {series && <SeriesNavigator position={series} />}
+
+          {/* Add categories section */}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-whiskey-600">Categoría(s) de esta turra:</span>
+            {categories.map((category, index) => (
+              <a
+                key={index}
+                href={`/${getCategorySlug(category)}`}
+                className="inline-flex items-center gap-1.5 py-1.5 px-3 rounded-full text-xs font-medium bg-whiskey-100 text-whiskey-800 hover:bg-whiskey-200 transition-colors"
+              >
+                {getCategoryName(category)}
+              </a>
+            ))}
+          </div>
+        </header>
+
+        {/* Content Grid */}
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-12 mt-8">
+          {/* Article Content */}
+          <article className="lg:col-span-8 prose prose-whiskey max-w-none">
+            <div className="space-y-6">
+              {thread.map((tweet) => (
+                <TweetContent 
+                  key={tweet.id} 
+                  tweet={tweet}
+                  id={tweet.id}
+                  {...(glossaryMatcher ? {
+                    glossary: { matcher: glossaryMatcher, slugs: glossaryMentions.get(tweet.id) ?? new Set<string>() },
+                  } : {})}
+                />
+              ))}
+            </div>
+          </article>
+
+          <TurraSidebar {...(exam ? { exam } : {})} thread={thread} />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,6 +1,6 @@
 import { FaFilePdf, FaDownload } from 'react-icons/fa';
 import { Metadata } from 'next';
-import { AUTHORS } from '@/infrastructure/constants';
+import { AUTHORS } from '@/infrastructure/authors';
 
 export const metadata: Metadata = {
   title: 'Versión en PDF',
@@ -0,0 +1,683 @@
+/**
+ * Local full-text search for the Turrero project
+ *
+ * Inverted index over every tweet and every thread summary. Words are folded
+ * (lowercase, no diacritics) and lightly stemmed for Spanish plurals and
+ * gender, and their positions are kept so quoted phrases can be matched.
+ * A thread matches when every query term appears in one of its tweets or in
+ * its summary; threads are ranked with BM25 and returned with their matching
+ * tweets as highlighted snippets.
+ *
+ * The index serializes to JSON: scripts/make-algolia-db.ts writes it at build
+ * time and TweetFacade.getSearchIndex() loads it for the /api/search route.
+ * This file imports no JSON data so Deno scripts can load it as-is.
+ */
+
+import type {
+  FacetCount,
+  SearchFacets,
+  SearchField,
+  SearchFilters,
+  SearchHit,
+  SearchIndexEntry,
+  SearchThreadResult,
+  SerializedSearchIndex,
+  Tweet,
+  TweetExam,
+} from './types';
+import { AUTHOR_HANDLES, getAuthorHandle, type Author } from './constants';
+import { calculateEngagement } from './utils/stats-utils';
+
+/** Bump when the analyzer changes so stale index files are rebuilt */
+export const SEARCH_INDEX_VERSION = 3;
+
+const FIELDS: readonly SearchField[] = ['tweet', 'summary'];
+
+/** Summary matches describe the whole thread, so they weigh more */
+const FIELD_WEIGHTS: Record<SearchField, number> = { tweet: 1, summary: 2 };
+
+/** Extra weight for terms that matched as part of a quoted phrase */
+const PHRASE_BOOST = 1.5;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/** Prefix matching on the word being typed expands to at most this many terms */
+const MAX_PREFIX_EXPANSIONS = 50;
+const MIN_PREFIX_LENGTH = 3;
+
+/** Matching tweets shown under each thread */
+const MAX_HITS_PER_THREAD = 3;
+
+const SNIPPET_LENGTH = 200;
+const SNIPPET_CONTEXT = 60;
+
+/** Function words that are not indexed (in folded form) */
+export const STOPWORDS = new Set([
+  'a', 'al', 'como', 'con', 'cuando', 'de', 'del', 'desde', 'donde', 'e', 'el',
+  'en', 'entre', 'era', 'es', 'esa', 'esas', 'ese', 'eso', 'esos', 'esta',
+  'estas', 'este', 'esto', 'estos', 'fue', 'ha', 'han', 'hasta', 'hay', 'la',
+  'las', 'le', 'les', 'lo', 'los', 'mas', 'me', 'mi', 'mis', 'muy', 'ni', 'no',
+  'nos', 'o', 'para', 'pero', 'por', 'porque', 'que', 'se', 'ser', 'si', 'sin',
+  'sobre', 'son', 'su', 'sus', 'tambien', 'te', 'tu', 'tus', 'u', 'un', 'una',
+  'unas', 'uno', 'unos', 'y', 'ya',
+  'and', 'in', 'is', 'of', 'the', 'to',
+]);
+
+// ============================================================================
+// TEXT ANALYSIS
+// ============================================================================
+
+interface Token {
+  /** Stemmed, folded form stored in the index */
+  term: string;
+  /** Word position in the field, stopwords included */
+  position: number;
+  /** Character offsets in the original text */
+  start: number;
+  end: number;
+  stopword: boolean;
+}
+
+/**
+ * Lowercases and removes diacritics so "decisión" and "DECISION" compare equal
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Light Spanish stemmer: strips plural and gender endings so "sistemas",
+ * "sistema", "complejo" and "complejas" share a term. Expects folded input.
+ */
+export function stemTerm(term: string): string {
+  if (term.length <= 3 || /\d/.test(term)) return term;
+  if (term.endsWith('ces')) return `${term.slice(0, -3)}z`; // luces -> luz, veces -> vez
+
+  let stem = term.endsWith('s') ? term.slice(0, -1) : term;
+  if (stem.length > 3 && /[aeo]$/.test(stem)) stem = stem.slice(0, -1);
+  return stem;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const wordPattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text)) !== null) {
+    const word = foldText(match[0]);
+    tokens.push({
+      term: stemTerm(word),
+      position: tokens.length,
+      start: match.index,
+      end: match.index + match[0].length,
+      stopword: STOPWORDS.has(word),
+    });
+  }
+  return tokens;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Wraps the words whose term is in `terms` in <em>, escaping everything else.
+ * With `maxLength`, long texts are cut to a window around the first match.
+ */
+function highlight(text: string, terms: Set<string>, maxLength?: number): string {
+  const matches = tokenize(text).filter(token => !token.stopword && terms.has(token.term));
+
+  let start = 0;
+  let end = text.length;
+  if (maxLength !== undefined && text.length > maxLength) {
+    const anchor = matches[0]?.start ?? 0;
+    start = Math.max(0, Math.min(anchor - SNIPPET_CONTEXT, text.length - maxLength));
+    end = Math.min(text.length, start + maxLength);
+    // Do not cut words in half
+    if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+    if (end < text.length) end = text.lastIndexOf(' ', end) > start ? text.lastIndexOf(' ', end) : end;
+  }
+
+  let html = start > 0 ? '…' : '';
+  let cursor = start;
+  for (const token of matches) {
+    if (token.start < start || token.end > end) continue;
+    html += escapeHtml(text.slice(cursor, token.start));
+    html += `<em>${escapeHtml(text.slice(token.start, token.end))}</em>`;
+    cursor = token.end;
+  }
+  html += escapeHtml(text.slice(cursor, end));
+  if (end < text.length) html += '…';
+  return html;
+}
+
+// ============================================================================
+// QUERY PARSING
+// ============================================================================
+
+interface QueryTerm {
+  term: string;
+  /** Last word of an as-you-type query: matches every term it prefixes */
+  prefix: boolean;
+}
+
+interface PhraseTerm {
+  term: string;
+  /** Distance in words from the first term of the phrase */
+  offset: number;
+}
+
+interface ParsedQuery {
+  terms: QueryTerm[];
+  phrases: PhraseTerm[][];
+}
+
+/**
+ * Splits a query into free terms and "quoted phrases". An unterminated quote
+ * runs to the end of the query so phrases work while being typed.
+ */
+function parseQuery(query: string): ParsedQuery {
+  const terms: QueryTerm[] = [];
+  const phrases: PhraseTerm[][] = [];
+
+  const freeText = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    const tokens = tokenize(phrase).filter(token => !token.stopword);
+    const first = tokens[0];
+    if (tokens.length === 1 && first) {
+      terms.push({ term: first.term, prefix: false });
+    } else if (first) {
+      phrases.push(tokens.map(token => ({ term: token.term, offset: token.position - first.position })));
+    }
+    return ' ';
+  });
+
+  const freeTokens = tokenize(freeText).filter(token => !token.stopword);
+  freeTokens.forEach((token, index) => {
+    const isLast = index === freeTokens.length - 1 && token.end === freeText.length;
+    terms.push({ term: token.term, prefix: isLast && token.term.length >= MIN_PREFIX_LENGTH });
+  });
+
+  return { terms, phrases };
+}
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+interface FieldIndex {
+  /** term -> entry position -> token positions */
+  postings: Map<string, Map<number, number[]>>;
+  lengths: number[];
+  averageLength: number;
+}
+
+export interface SearchOptions {
+  /** Maximum number of threads to return (default 20) */
+  limit?: number;
+  /** Number of threads to skip, for pagination */
+  offset?: number;
+  /** Facet filters; every one given must hold */
+  filters?: SearchFilters;
+}
+
+export interface SearchResults {
+  threads: SearchThreadResult[];
+  /** Number of threads matching the query and filters */
+  total: number;
+  facets: SearchFacets;
+}
+
+/** Thread-level data copied onto every entry of the thread */
+export type ThreadSearchData = Omit<SearchIndexEntry, 'objectID' | 'tweet' | 'time'>;
+
+/**
+ * Thread lookups the search data is resolved from. TweetProvider implements
+ * them; scripts/make-algolia-db.ts builds them over the db files.
+ */
+export interface ThreadSearchSource {
+  getSummaryById(id: string): string;
+  getCategoryById(id: string): string[];
+  getExamById(id: string): TweetExam | undefined;
+  hasPodcast(id: string): boolean;
+  getThreadAuthor(mainTweet: Tweet): Author;
+}
+
+type FacetDimension = 'category' | 'author' | 'year' | 'month' | 'exam' | 'podcast';
+
+const EMPTY_FACETS: SearchFacets = { categories: [], authors: [], years: [], months: [], exam: 0, podcast: 0 };
+
+/** Facet values of a thread, taken from any of its entries */
+interface ThreadFacets {
+  categories: string[];
+  author: string;
+  year: string;
+  month: string;
+  hasExam: boolean;
+  hasPodcast: boolean;
+}
+
+function getThreadFacets(entry: SearchIndexEntry): ThreadFacets {
+  const date = new Date(entry.time);
+  return {
+    categories: entry.categories,
+    author: entry.isMainAuthor ? 'principal' : 'otros-autores',
+    year: String(date.getUTCFullYear()),
+    month: String(date.getUTCMonth() + 1),
+    hasExam: entry.hasExam,
+    hasPodcast: entry.hasPodcast,
+  };
+}
+
+/** Whether a thread passes every filter except the one for `skip` */
+function matchesFilters(facets: ThreadFacets, filters: SearchFilters, skip?: FacetDimension): boolean {
+  if (skip !== 'category' && filters.category && !facets.categories.includes(filters.category)) return false;
+  if (skip !== 'author' && filters.author && facets.author !== filters.author) return false;
+  if (skip !== 'year' && filters.year && facets.year !== String(filters.year)) return false;
+  if (skip !== 'month' && filters.month && facets.month !== String(filters.month)) return false;
+  if (skip !== 'exam' && filters.hasExam && !facets.hasExam) return false;
+  if (skip !== 'podcast' && filters.hasPodcast && !facets.hasPodcast) return false;
+  return true;
+}
+
+function countValues(values: string[]): FacetCount[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count }));
+}
+
+function computeFacets(threads: ThreadFacets[], filters: SearchFilters): SearchFacets {
+  const without = (dimension: FacetDimension) =>
+    threads.filter(thread => matchesFilters(thread, filters, dimension));
+
+  return {
+    categories: countValues(without('category').flatMap(thread => thread.categories))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+    authors: countValues(without('author').map(thread => thread.author))
+      .sort((a, b) => b.count - a.count),
+    years: countValues(without('year').map(thread => thread.year))
+      .sort((a, b) => Number(b.value) - Number(a.value)),
+    months: countValues(without('month').map(thread => thread.month))
+      .sort((a, b) => Number(a.value) - Number(b.value)),
+    exam: without('exam').filter(thread => thread.hasExam).length,
+    podcast: without('podcast').filter(thread => thread.hasPodcast).length,
+  };
+}
+
+/**
+ * Summary, author, categories, engagement and the exam/podcast facets of the
+ * thread started by `mainTweet`
+ */
+export function getThreadSearchData(mainTweet: Tweet, source: ThreadSearchSource): ThreadSearchData {
+  return {
+    summary: source.getSummaryById(mainTweet.id),
+    author: source.getThreadAuthor(mainTweet).NAME,
+    categories: source.getCategoryById(mainTweet.id),
+    engagement: calculateEngagement(mainTweet.stats),
+    isMainAuthor: getAuthorHandle(mainTweet.author).toLowerCase() === AUTHOR_HANDLES.RECUENCO.toLowerCase(),
+    hasExam: source.getExamById(mainTweet.id) !== undefined,
+    hasPodcast: source.hasPodcast(mainTweet.id),
+  };
+}
+
+/**
+ * Creates one searchable entry per tweet, carrying its thread's publication
+ * time and the data `getThreadData` resolves from the thread's first tweet
+ */
+export function createSearchIndexEntries(
+  threads: Tweet[][],
+  getThreadData: (mainTweet: Tweet) => ThreadSearchData
+): SearchIndexEntry[] {
+  const entries: SearchIndexEntry[] = [];
+
+  threads.forEach(thread => {
+    const mainTweet = thread[0];
+    if (!mainTweet) return;
+
+    const threadData = getThreadData(mainTweet);
+    thread.forEach(({ id, tweet }) => {
+      entries.push({
+        objectID: `${mainTweet.id}#${id}`,
+        tweet,
+        time: mainTweet.time,
+        ...threadData,
+      });
+    });
+  });
+
+  return entries;
+}
+
+/** A thread result; `terms` are highlighted in its summary */
+function toThreadResult(
+  threadId: string,
+  entry: SearchIndexEntry,
+  terms: Set<string>,
+  score: number,
+  matches: number,
+  hits: SearchHit[]
+): SearchThreadResult {
+  return {
+    threadId,
+    summary: entry.summary,
+    highlightedSummary: highlight(entry.summary, terms),
+    author: entry.author,
+    categories: entry.categories,
+    time: entry.time,
+    engagement: entry.engagement,
+    score: roundScore(score),
+    matches,
+    hits,
+  };
+}
+
+function splitObjectId(objectID: string): { threadId: string; tweetId: string } {
+  const [threadId = objectID, tweetId = threadId] = objectID.split('#');
+  return { threadId, tweetId };
+}
+
+/**
+ * Text of an entry for a field. The summary is shared by every tweet of a
+ * thread, so it is only indexed on the first one.
+ */
+function getFieldText(entry: SearchIndexEntry, field: SearchField): string {
+  if (field === 'tweet') return entry.tweet;
+  const { threadId, tweetId } = splitObjectId(entry.objectID);
+  return threadId === tweetId ? entry.summary : '';
+}
+
+/** Values in both sets; `null` stands for "no restriction yet" */
+function intersect<T>(current: Set<T> | null, next: Set<T>): Set<T> {
+  if (!current) return next;
+  return new Set(Array.from(current).filter(value => next.has(value)));
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+function averageOf(lengths: number[]): number {
+  return lengths.length > 0 ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0;
+}
+
+export class SearchIndex {
+  /** Every indexed term, sorted, for prefix expansion */
+  private readonly dictionary: string[];
+  /** Thread id of each entry */
+  private readonly entryThreads: string[];
+  /** Entry positions of each thread, in thread order */
+  private readonly threadEntries = new Map<string, number[]>();
+
+  private constructor(
+    private readonly entries: SearchIndexEntry[],
+    private readonly fields: Record<SearchField, FieldIndex>
+  ) {
+    const terms = new Set<string>();
+    FIELDS.forEach(field => fields[field].postings.forEach((_, term) => terms.add(term)));
+    this.dictionary = Array.from(terms).sort();
+
+    this.entryThreads = entries.map(entry => splitObjectId(entry.objectID).threadId);
+    this.entryThreads.forEach((threadId, entryIndex) => {
+      const threadEntries = this.threadEntries.get(threadId);
+      if (threadEntries) threadEntries.push(entryIndex);
+      else this.threadEntries.set(threadId, [entryIndex]);
+    });
+  }
+
+  /** Tokenizes every entry into per-field postings */
+  static build(entries: SearchIndexEntry[]): SearchIndex {
+    const fields = {} as Record<SearchField, FieldIndex>;
+
+    FIELDS.forEach(field => {
+      const postings = new Map<string, Map<number, number[]>>();
+      const lengths = entries.map((entry, entryIndex) => {
+        const tokens = tokenize(getFieldText(entry, field));
+        tokens.forEach(token => {
+          if (token.stopword) return;
+          let entryPostings = postings.get(token.term);
+          if (!entryPostings) {
+            entryPostings = new Map();
+            postings.set(token.term, entryPostings);
+          }
+          const positions = entryPostings.get(entryIndex);
+          if (positions) positions.push(token.position);
+          else entryPostings.set(entryIndex, [token.position]);
+        });
+        return tokens.length;
+      });
+      fields[field] = { postings, lengths, averageLength: averageOf(lengths) };
+    });
+
+    return new SearchIndex(entries, fields);
+  }
+
+  static fromJSON(data: SerializedSearchIndex): SearchIndex {
+    if (data.version !== SEARCH_INDEX_VERSION) {
+      throw new Error(`Search index version ${data.version} does not match ${SEARCH_INDEX_VERSION}`);
+    }
+
+    const fields = {} as Record<SearchField, FieldIndex>;
+    FIELDS.forEach(field => {
+      const { lengths, postings } = data.fields[field];
+      fields[field] = {
+        postings: new Map(Object.entries(postings).map(([term, list]) => [term, new Map(list)])),
+        lengths,
+        averageLength: averageOf(lengths),
+      };
+    });
+
+    return new SearchIndex(data.entries, fields);
+  }
+
+  toJSON(): SerializedSearchIndex {
+    const fields = {} as SerializedSearchIndex['fields'];
+    FIELDS.forEach(field => {
+      const { lengths, postings } = this.fields[field];
+      fields[field] = {
+        lengths,
+        postings: Object.fromEntries(
+          Array.from(postings, ([term, entryPostings]) => [term, Array.from(entryPostings)])
+        ),
+      };
+    });
+
+    return { version: SEARCH_INDEX_VERSION, entries: this.entries, fields };
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Finds the threads containing every term and every quoted phrase of the
+   * query, in any of their tweets or in their summary, best threads first.
+   * Each thread comes with the tweets that matched. An empty query lists
+   * the threads passing the filters, newest first.
+   */
+  search(query: string, { limit = 20, offset = 0, filters = {} }: SearchOptions = {}): SearchResults {
+    if (query.trim() === '') return this.listThreads(limit, offset, filters);
+
+    const { terms, phrases } = parseQuery(query);
+    if (terms.length === 0 && phrases.length === 0) {
+      return { threads: [], total: 0, facets: EMPTY_FACETS };
+    }
+
+    const scores = new Map<number, number>();
+    const matchedTerms = new Map<number, Set<string>>();
+    /** Best score of each thread for each term or phrase of the query */
+    const threadScores: Array<Map<string, number>> = [];
+    let candidates: Set<string> | null = null;
+
+    const addScore = (entryIndex: number, term: string, weight: number): number => {
+      const score = weight * this.scoreTerm(term, entryIndex);
+      scores.set(entryIndex, (scores.get(entryIndex) ?? 0) + score);
+      const matched = matchedTerms.get(entryIndex);
+      if (matched) matched.add(term);
+      else matchedTerms.set(entryIndex, new Set([term]));
+      return score;
+    };
+
+    /** Keeps the threads where some entry matched; a thread scores by its best entry */
+    const restrictThreads = (entryScores: Map<number, number>): Set<string> => {
+      const best = new Map<string, number>();
+      entryScores.forEach((score, entryIndex) => {
+        const threadId = this.entryThreads[entryIndex]!;
+        best.set(threadId, Math.max(best.get(threadId) ?? 0, score));
+      });
+      threadScores.push(best);
+      return intersect(candidates, new Set(best.keys()));
+    };
+
+    for (const { term, prefix } of terms) {
+      const expansions = prefix ? this.expandPrefix(term) : [term];
+      const found = new Set<number>();
+      expansions.forEach(expansion => {
+        FIELDS.forEach(field => this.fields[field].postings.get(expansion)?.forEach((_, entryIndex) => {
+          if (!candidates || candidates.has(this.entryThreads[entryIndex]!)) found.add(entryIndex);
+        }));
+      });
+
+      // Only the best expansion of a prefix counts towards the score
+      const entryScores = new Map<number, number>();
+      found.forEach(entryIndex => {
+        const best = expansions
+          .filter(expansion => this.scoreTerm(expansion, entryIndex) > 0)
+          .sort((a, b) => this.scoreTerm(b, entryIndex) - this.scoreTerm(a, entryIndex));
+        best.forEach((expansion, index) => {
+          const score = addScore(entryIndex, expansion, index === 0 ? 1 : 0);
+          if (index === 0) entryScores.set(entryIndex, score);
+        });
+      });
+      candidates = restrictThreads(entryScores);
+      if (candidates.size === 0) return { threads: [], total: 0, facets: EMPTY_FACETS };
+    }
+
+    for (const phrase of phrases) {
+      const entryScores = new Map<number, number>();
+      this.findPhrase(phrase, candidates).forEach(entryIndex => {
+        entryScores.set(
+          entryIndex,
+          phrase.reduce((total, { term }) => total + addScore(entryIndex, term, PHRASE_BOOST), 0)
+        );
+      });
+      candidates = restrictThreads(entryScores);
+      if (candidates.size === 0) return { threads: [], total: 0, facets: EMPTY_FACETS };
+    }
+
+    const matching = Array.from(candidates ?? [], threadId => {
+      const threadEntries = this.threadEntries.get(threadId) ?? [];
+      // The summary is indexed on the first entry, so hits are the tweets whose own text matched
+      const hits = threadEntries
+        .filter(entryIndex => Array.from(matchedTerms.get(entryIndex) ?? [])
+          .some(term => this.fields.tweet.postings.get(term)?.has(entryIndex)))
+        .map(entryIndex => ({ entryIndex, score: scores.get(entryIndex) ?? 0 }))
+        .sort((a, b) => b.score - a.score || a.entryIndex - b.entryIndex);
+      const first = this.entries[threadEntries[0]!]!;
+      const score = threadScores.reduce((total, best) => total + (best.get(threadId) ?? 0), 0);
+      const terms = new Set(threadEntries.flatMap(entryIndex => Array.from(matchedTerms.get(entryIndex) ?? [])));
+      return { threadId, hits, terms, score, entry: first, time: first.time, facets: getThreadFacets(first) };
+    });
+
+    const ranked = matching
+      .filter(thread => matchesFilters(thread.facets, filters))
+      .sort((a, b) => b.score - a.score || new Date(b.time).getTime() - new Date(a.time).getTime());
+
+    const results = ranked.slice(offset, offset + limit).map(({ threadId, hits, terms: threadTerms, score, entry }) =>
+      toThreadResult(threadId, entry, threadTerms, score, hits.length, hits
+        .slice(0, MAX_HITS_PER_THREAD)
+        .map(({ entryIndex, score: hitScore }): SearchHit => {
+          const hitEntry = this.entries[entryIndex]!;
+          return {
+            objectID: hitEntry.objectID,
+            tweetId: splitObjectId(hitEntry.objectID).tweetId,
+            score: roundScore(hitScore),
+            snippet: highlight(hitEntry.tweet, matchedTerms.get(entryIndex) ?? new Set(), SNIPPET_LENGTH),
+          };
+        }))
+    );
+
+    return {
+      threads: results,
+      total: ranked.length,
+      facets: computeFacets(matching.map(thread => thread.facets), filters),
+    };
+  }
+
+  /** Every thread passing the filters, newest first, without hits */
+  private listThreads(limit: number, offset: number, filters: SearchFilters): SearchResults {
+    const threads = Array.from(this.threadEntries, ([threadId, threadEntries]) => {
+      const entry = this.entries[threadEntries[0]!]!;
+      return { threadId, entry, facets: getThreadFacets(entry) };
+    });
+
+    const listed = threads
+      .filter(thread => matchesFilters(thread.facets, filters))
+      .sort((a, b) => new Date(b.entry.time).getTime() - new Date(a.entry.time).getTime());
+
+    return {
+      threads: listed
+        .slice(offset, offset + limit)
+        .map(({ threadId, entry }) => toThreadResult(threadId, entry, new Set(), 0, 0, [])),
+      total: listed.length,
+      facets: computeFacets(threads.map(thread => thread.facets), filters),
+    };
+  }
+
+  /** BM25 of a term for an entry, summed over the weighted fields */
+  private scoreTerm(term: string, entryIndex: number): number {
+    return FIELDS.reduce((total, field) => {
+      const { postings, lengths, averageLength } = this.fields[field];
+      const entryPostings = postings.get(term);
+      const frequency = entryPostings?.get(entryIndex)?.length ?? 0;
+      if (!entryPostings || frequency === 0) return total;
+
+      const idf = Math.log(1 + (this.entries.length - entryPostings.size + 0.5) / (entryPostings.size + 0.5));
+      const lengthRatio = averageLength > 0 ? (lengths[entryIndex] ?? 0) / averageLength : 1;
+      const tf = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio));
+      return total + FIELD_WEIGHTS[field] * idf * tf;
+    }, 0);
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    let low = 0;
+    let high = this.dictionary.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.dictionary[middle]! < prefix) low = middle + 1;
+      else high = middle;
+    }
+
+    const expansions: string[] = [];
+    for (let i = low; i < this.dictionary.length && expansions.length < MAX_PREFIX_EXPANSIONS; i++) {
+      const term = this.dictionary[i]!;
+      if (!term.startsWith(prefix)) break;
+      expansions.push(term);
+    }
+    return expansions;
+  }
+
+  /** Entries of the candidate threads where the phrase terms appear consecutively in a single field */
+  private findPhrase(phrase: PhraseTerm[], candidates: Set<string> | null): Set<number> {
+    const found = new Set<number>();
+
+    FIELDS.forEach(field => {
+      const { postings } = this.fields[field];
+      const [first, ...rest] = phrase;
+      if (!first) return;
+
+      postings.get(first.term)?.forEach((positions, entryIndex) => {
+        if (candidates && !candidates.has(this.entryThreads[entryIndex]!)) return;
+        const matches = positions.some(position =>
+          rest.every(({ term, offset }) => postings.get(term)?.get(entryIndex)?.includes(position + offset))
+        );
+        if (matches) found.add(entryIndex);
+      });
+    });
+
+    return found;
+  }
+}
@@ -1,13 +1,22 @@
-import tweetsMapData from './db/tweets_map.json';
-import tweetsData from './db/tweets.json';
-import tweetSummariesData from './db/tweets_summary.json';
-import enrichedTweetsData from './db/tweets_enriched.json';
-import tweetExamsData from './db/tweets_exam.json';
-import tweetPodcastsData from './db/tweets_podcast.json';
-import graphData from './db/processed_graph_data.json';
-import { Author } from './constants';
+import tweetsMapData from './db/tweets_map.json' with { type: 'json' };
+import tweetsData from './db/tweets.json' with { type: 'json' };
+import tweetSummariesData from './db/tweets_summary.json' with { type: 'json' };
+import enrichedTweetsData from './db/tweets_enriched.json' with { type: 'json' };
+import tweetExamsData from './db/tweets_exam.json' with { type: 'json' };
+import tweetPodcastsData from './db/tweets_podcast.json' with { type: 'json' };
+import graphData from './db/processed_graph_data.json' with { type: 'json' };
+import authorsData from './db/authors.json' with { type: 'json' };
+import seriesData from './db/series.json' with { type: 'json' };
+import statsHistoryData from './db/tweets_stats_history.json' with { type: 'json' };
+import { Author, fromXtoAuthor, getAuthorHandle, toAuthor } from './constants';
 import {
+  AuthorProfile,
   CategorizedTweet,
+  SeriesPosition,
+  StatsSnapshot,
+  ThreadSeries,
+  ThreadStatsHistory,
+  TrendingTweet,
   Tweet,
   TweetSummary,
   EnrichedTweetMetadata,
@@ -15,9 +24,16 @@ import {
   TurraNode,
   TweetWithEngagement,
   PodcastEpisode,
+  ThreadId,
+  TweetId,
   normalizeId,
   extractThreadId
 } from './types';
+import { calculateEngagement, getSnapshotEngagement } from './utils/stats-utils';
+import { getTurraPath } from './utils/text-utils';
+
+/** Days of stats history compared to rank trending threads */
+export const TRENDING_WINDOW_DAYS = 7;
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars, prefer-const
 let instance: TweetProvider | null = null;
@@ -30,6 +46,25 @@ export class TweetProvider {
   private tweetExams!: TweetExam[];
   private tweetPodcasts!: PodcastEpisode[];
   private graphData!: TurraNode[];
+  private authors!: AuthorProfile[];
+  private series!: ThreadSeries[];
+  private statsHistory!: ThreadStatsHistory[];
+
+  // Lookup indexes, built once so per-tweet calls during the static build stay O(1)
+  private tweetsById!: Map<TweetId, Tweet>;
+  private threadByTweetId!: Map<TweetId, Tweet[]>;
+  private tweetsByCategory!: Map<string, Tweet[]>;
+  private summariesByThreadId!: Map<ThreadId, string>;
+  private categoriesByThreadId!: Map<ThreadId, string[]>;
+  private enrichmentsByTweetId!: Map<TweetId, EnrichedTweetMetadata[]>;
+  private examsByThreadId!: Map<ThreadId, TweetExam>;
+  private podcastsByThreadId!: Map<ThreadId, PodcastEpisode>;
+  /** Keyed by lowercase handle */
+  private authorsByHandle!: Map<string, AuthorProfile>;
+  /** First tweet of each thread, keyed by lowercase author handle */
+  private threadsByAuthorHandle!: Map<string, Tweet[]>;
+  private seriesByThreadId!: Map<ThreadId, ThreadSeries>;
+  private statsHistoryByThreadId!: Map<ThreadId, StatsSnapshot[]>;
   static instance: TweetProvider | null = null;
 
   constructor() {
@@ -44,27 +79,143 @@ export class TweetProvider {
     this.tweetExams = tweetExamsData as TweetExam[];
     this.tweetPodcasts = tweetPodcastsData as PodcastEpisode[];
     this.graphData = graphData as TurraNode[];
+    this.authors = authorsData as AuthorProfile[];
+    this.series = seriesData as ThreadSeries[];
+    this.statsHistory = statsHistoryData as ThreadStatsHistory[];
+
+    this.buildIndexes();
 
     TweetProvider.instance = this;
   }
 
+  /**
+   * Builds every lookup map in a single pass over each data file.
+   * When an id appears more than once the first entry wins, matching the
+   * `find`-based lookups these maps replace.
+   */
+  private buildIndexes(): void {
+    this.summariesByThreadId = new Map();
+    for (const summary of this.tweetSummaries) {
+      const threadId = normalizeId(summary.id);
+      if (!this.summariesByThreadId.has(threadId)) {
+        this.summariesByThreadId.set(threadId, summary.summary);
+      }
+    }
+
+    this.categoriesByThreadId = new Map();
+    // Category membership merges duplicate map entries, as the old filter did
+    const categoryMembership = new Map<ThreadId, Set<string>>();
+    for (const entry of this.tweetsMap) {
+      const threadId = normalizeId(entry.id);
+      const categories = entry.categories.split(',').map(c => c.trim()).filter(c => c.length > 0);
+      if (!this.categoriesByThreadId.has(threadId)) {
+        this.categoriesByThreadId.set(threadId, categories);
+      }
+      const membership = categoryMembership.get(threadId) || new Set<string>();
+      categories.forEach(category => membership.add(category));
+      categoryMembership.set(threadId, membership);
+    }
+
+    this.tweetsById = new Map();
+    this.threadByTweetId = new Map();
+    this.tweetsByCategory = new Map();
+    for (const thread of this.tweets) {
+      for (const tweet of thread) {
+        const tweetId = normalizeId(tweet.id);
+        if (!this.tweetsById.has(tweetId)) {
+          this.tweetsById.set(tweetId, tweet);
+        }
+        const tweetThreadKey = extractThreadId(tweetId);
+        if (!this.threadByTweetId.has(tweetThreadKey)) {
+          this.threadByTweetId.set(tweetThreadKey, thread);
+        }
+        for (const category of categoryMembership.get(tweetThreadKey) || []) {
+          const categoryTweets = this.tweetsByCategory.get(category);
+          if (categoryTweets) {
+            categoryTweets.push(tweet);
+          } else {
+            this.tweetsByCategory.set(category, [tweet]);
+          }
+        }
+      }
+    }
+
+    this.enrichmentsByTweetId = new Map();
+    for (const enrichment of this.enrichedTweets) {
+      const tweetId = normalizeId(enrichment.id);
+      const enrichments = this.enrichmentsByTweetId.get(tweetId);
+      if (enrichments) {
+        enrichments.push(enrichment);
+      } else {
+        this.enrichmentsByTweetId.set(tweetId, [enrichment]);
+      }
+    }
+
+    this.examsByThreadId = new Map();
+    for (const exam of this.tweetExams) {
+      const threadId = normalizeId(exam.id);
+      if (!this.examsByThreadId.has(threadId)) {
+        this.examsByThreadId.set(threadId, exam);
+      }
+    }
+
+    this.authorsByHandle = new Map();
+    for (const author of this.authors) {
+      const key = author.handle.toLowerCase();
+      if (!this.authorsByHandle.has(key)) {
+        this.authorsByHandle.set(key, author);
+      }
+    }
+
+    this.threadsByAuthorHandle = new Map();
+    const seenThreads = new Set<ThreadId>();
+    for (const thread of this.tweets) {
+      const mainTweet = thread[0];
+      if (!mainTweet || seenThreads.has(mainTweet.id)) continue;
+      seenThreads.add(mainTweet.id);
+      const key = getAuthorHandle(mainTweet.author).toLowerCase();
+      const authorThreads = this.threadsByAuthorHandle.get(key);
+      if (authorThreads) {
+        authorThreads.push(mainTweet);
+      } else {
+        this.threadsByAuthorHandle.set(key, [mainTweet]);
+      }
+    }
+
+    // A thread belongs to the first series that lists it; collections have no navigation
+    this.seriesByThreadId = new Map();
+    for (const series of this.series.filter(series => !series.collection)) {
+      for (const part of series.parts) {
+        const threadId = normalizeId(part.id);
+        if (!this.seriesByThreadId.has(threadId)) {
+          this.seriesByThreadId.set(threadId, series);
+        }
+      }
+    }
+
+    this.statsHistoryByThreadId = new Map();
+    for (const history of this.statsHistory) {
+      const threadId = normalizeId(history.id);
+      if (!this.statsHistoryByThreadId.has(threadId)) {
+        this.statsHistoryByThreadId.set(
+          threadId,
+          [...history.snapshots].sort((a, b) => a.date.localeCompare(b.date))
+        );
+      }
+    }
+
+    this.podcastsByThreadId = new Map();
+    for (const podcast of this.tweetPodcasts) {
+      const threadId = normalizeId(podcast.id);
+      if (!this.podcastsByThreadId.has(threadId)) {
+        this.podcastsByThreadId.set(threadId, podcast);
+      }
+    }
+  }
+
   getTweetsByCategory(category: string): Tweet[] {
-    const matchingTweets = this.tweetsMap
-      .filter(tweet => {
-        const tweetCategories = tweet.categories.split(',').map(c => c.trim());
-        return tweetCategories.includes(category);
-      })
-      .map(tweet => normalizeId(tweet.id));
-    
-    // Flatten the array of arrays and then filter
-    const flatTweets = this.tweets.flat();
-    const result = flatTweets.filter(tweet => {
-      const normalizedTweetId = normalizeId(tweet.id);
-      const threadId = extractThreadId(normalizedTweetId);
-      return matchingTweets.includes(threadId);
-    });
-    
-    return result;
+    // Copy so callers can sort the result without reordering the index
+    return [...(this.tweetsByCategory.get(category) || [])];
   }
 
   public getAllTweets(): Tweet[][] {
@@ -74,15 +225,13 @@ export class TweetProvider {
   public getSummaryById(id: string): string {
     const normalizedId = normalizeId(id);
     const threadId = extractThreadId(normalizedId);
-    const summary = this.tweetSummaries.find(s => normalizeId(s.id) === threadId);
-    return summary?.summary || '';
+    return this.summariesByThreadId.get(threadId) || '';
   }
 
   public getCategoryById(id: string): string[] {
     const normalizedId = normalizeId(id);
     const threadId = extractThreadId(normalizedId);
-    const tweet = this.tweetsMap.find(tweet => normalizeId(tweet.id) === threadId);
-    return tweet?.categories.split(',').map(c => c.trim()).filter(c => c.length > 0) || [];
+    return [...(this.categoriesByThreadId.get(threadId) || [])];
   }
 
   getTop25Tweets(): TweetWithEngagement[] {
@@ -92,7 +241,7 @@ export class TweetProvider {
       .filter((tweet): tweet is Tweet => tweet !== undefined)
       .map(tweet => ({
         ...tweet,
-        engagement: this.calculateEngagement(tweet.stats)
+        engagement: calculateEngagement(tweet.stats)
       }))
       .sort((a, b) => (b.engagement || 0) - (a.engagement || 0)) // Sort by engagement
       .slice(0, 25); // Get top 25
@@ -106,7 +255,7 @@ export class TweetProvider {
       .filter((tweet): tweet is Tweet => tweet !== undefined)
       .map(tweet => ({
         ...tweet,
-        engagement: this.calculateEngagement(tweet.stats)
+        engagement: calculateEngagement(tweet.stats)
       }))
       .sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime())
       .slice(0, 25);
@@ -114,45 +263,141 @@ export class TweetProvider {
     return newestTweets;
   }
 
-  public filterTweetsByAuthor(author: Author): Tweet[] {
-    return this.tweets
-      .map(thread => thread[0]) // Get first tweet of each thread
-      .filter((tweet): tweet is Tweet => tweet !== undefined && tweet.author === author.X);
+  /**
+   * Threads that gained the most engagement over the last `windowDays` days of
+   * their stats history (or since their first snapshot, if it is newer)
+   */
+  getTrendingTweets(limit = 25, windowDays = TRENDING_WINDOW_DAYS): TrendingTweet[] {
+    const windowMs = windowDays * 24 * 60 * 60 * 1000;
+    const trending: TrendingTweet[] = [];
+
+    for (const [threadId, snapshots] of this.statsHistoryByThreadId) {
+      const latest = snapshots[snapshots.length - 1];
+      const tweet = this.tweetsById.get(threadId);
+      if (!latest || snapshots.length < 2 || !tweet) continue;
+
+      const windowStart = new Date(`${latest.date}T00:00:00Z`).getTime() - windowMs;
+      const baseline = snapshots
+        .filter(snapshot => new Date(`${snapshot.date}T00:00:00Z`).getTime() <= windowStart)
+        .pop() ?? snapshots[0]!;
+      const growth = getSnapshotEngagement(latest) - getSnapshotEngagement(baseline);
+      if (growth <= 0) continue;
+
+      trending.push({ ...tweet, engagement: calculateEngagement(tweet.stats), growth });
+    }
+
+    return trending
+      .sort((a, b) => b.growth - a.growth)
+      .slice(0, limit);
   }
 
-  public filterAvoidTweetsByAuthor(author: Author): Tweet[] {
-    return this.tweets
-      .map(thread => thread[0]) // Get first tweet of each thread
-      .filter((tweet): tweet is Tweet => tweet !== undefined && tweet.author !== author.X);
+  /** Dated stats snapshots of a thread, oldest first */
+  public getStatsHistory(id: string): StatsSnapshot[] {
+    const threadId = extractThreadId(normalizeId(id));
+    return [...(this.statsHistoryByThreadId.get(threadId) || [])];
   }
 
-  private calculateEngagement(stats: Tweet['stats']): number {
-    return Number(stats.retweets) + 
-           Number(stats.quotetweets) + 
-           Number(stats.likes);
+  public filterTweetsByAuthor(handle: string): Tweet[] {
+    return this.getThreadsByAuthor(handle);
+  }
+
+  /** First tweet of each thread not written by the author (handle is case-insensitive) */
+  public filterAvoidTweetsByAuthor(handle: string): Tweet[] {
+    const key = handle.replace(/^@/, '').toLowerCase();
+    return this.tweets
+      .map(thread => thread[0]) // Get first tweet of each thread
+      .filter((tweet): tweet is Tweet => tweet !== undefined && getAuthorHandle(tweet.author).toLowerCase() !== key);
   }
 
   public getEnrichedTweetData(id: string): EnrichedTweetMetadata | undefined {
-    const normalizedId = normalizeId(id);
-    return this.enrichedTweets.find(t => normalizeId(t.id) === normalizedId);
+    return this.enrichmentsByTweetId.get(normalizeId(id))?.[0];
   }
 
   /** Returns all enrichments for a tweet (e.g. image + embed) so both can be rendered */
   public getAllEnrichedTweetData(id: string): EnrichedTweetMetadata[] {
-    const normalizedId = normalizeId(id);
-    return this.enrichedTweets.filter(t => normalizeId(t.id) === normalizedId);
+    return [...(this.enrichmentsByTweetId.get(normalizeId(id)) || [])];
   }
 
   public getExamById(id: string): TweetExam | undefined {
     const normalizedId = normalizeId(id);
     const threadId = extractThreadId(normalizedId);
-    return this.tweetExams.find(exam => normalizeId(exam.id) === threadId);
+    return this.examsByThreadId.get(threadId);
   }
 
   public hasPodcast(id: string): boolean {
     const normalizedId = normalizeId(id);
     const threadId = extractThreadId(normalizedId);
-    return this.tweetPodcasts.some(podcast => normalizeId(podcast.id) === threadId);
+    return this.podcastsByThreadId.has(threadId);
+  }
+
+  public getPodcastEpisode(id: string): PodcastEpisode | undefined {
+    const normalizedId = normalizeId(id);
+    const threadId = extractThreadId(normalizedId);
+    return this.podcastsByThreadId.get(threadId);
+  }
+
+  /** Podcast episodes in tweets_podcast.json order, one per thread */
+  public getPodcastEpisodes(): PodcastEpisode[] {
+    return Array.from(this.podcastsByThreadId.values());
+  }
+
+  /**
+   * Profile from authors.json, or one derived from the author's threads for
+   * handles that are not registered; undefined when the handle has no threads
+   */
+  public getAuthorProfile(handle: string): AuthorProfile | undefined {
+    const key = handle.replace(/^@/, '').toLowerCase();
+    const registered = this.authorsByHandle.get(key);
+    if (registered) return registered;
+
+    const mainTweet = this.threadsByAuthorHandle.get(key)?.[0];
+    if (!mainTweet) return undefined;
+    const author = fromXtoAuthor(mainTweet.author, mainTweet.authorName, this.authors);
+    return {
+      handle: getAuthorHandle(author.X),
+      name: author.NAME,
+      links: { x: author.X },
+    };
+  }
+
+  /** Byline of a thread, from the author's profile */
+  public getThreadAuthor(mainTweet: Tweet): Author {
+    const profile = this.getAuthorProfile(getAuthorHandle(mainTweet.author));
+    return profile ? toAuthor(profile) : fromXtoAuthor(mainTweet.author, mainTweet.authorName, this.authors);
+  }
+
+  /** Handles of every author with at least one thread */
+  public getAuthorHandles(): string[] {
+    return Array.from(this.threadsByAuthorHandle.values())
+      .map(threads => getAuthorHandle(threads[0]!.author));
+  }
+
+  /** First tweet of each thread written by the author (handle is case-insensitive) */
+  public getThreadsByAuthor(handle: string): Tweet[] {
+    return [...(this.threadsByAuthorHandle.get(handle.replace(/^@/, '').toLowerCase()) || [])];
+  }
+
+  public getAllSeries(): ThreadSeries[] {
+    return this.series;
+  }
+
+  public getSeriesBySlug(slug: string): ThreadSeries | undefined {
+    return this.series.find(series => series.slug === slug);
+  }
+
+  /** The series of a thread with its part number and neighbours, if it belongs to one */
+  public getSeriesForThread(id: string): SeriesPosition | undefined {
+    const threadId = extractThreadId(normalizeId(id));
+    const series = this.seriesByThreadId.get(threadId);
+    if (!series) return undefined;
+
+    const index = series.parts.findIndex(part => normalizeId(part.id) === threadId);
+    return {
+      series,
+      part: index + 1,
+      previous: series.parts[index - 1] ?? null,
+      next: series.parts[index + 1] ?? null,
+    };
   }
 
   public getGraphData(): TurraNode[] {
@@ -165,25 +410,25 @@ export class TweetProvider {
   public getThread(id: string): Tweet[] {
     const normalizedId = normalizeId(id);
     const threadId = extractThreadId(normalizedId);
-    
-    // Find the thread that contains the ID
-    const thread = this.tweets.find(thread => 
-      thread.some(tweet => {
-        const tweetThreadId = extractThreadId(normalizeId(tweet.id));
-        return tweetThreadId === threadId;
-      })
-    );
-    
-    return thread || [];
+
+    // Resolve the thread that contains the ID through the reverse tweet index
+    return this.threadByTweetId.get(threadId) || [];
+  }
+
+  /**
+   * Canonical page path (`/turra/{threadId}/{slug}`) of the thread containing
+   * the given tweet ID
+   */
+  public getTurraPath(id: string): string {
+    const threadId = this.getThread(id)[0]?.id ?? extractThreadId(normalizeId(id));
+    return getTurraPath(threadId, this.getSummaryById(threadId));
   }
 
   /**
    * Gets a specific tweet by its exact ID
    */
   public getTweetById(id: string): Tweet | undefined {
-    const normalizedId = normalizeId(id);
-    const flatTweets = this.tweets.flat();
-    return flatTweets.find(tweet => normalizeId(tweet.id) === normalizedId);
+    return this.tweetsById.get(normalizeId(id));
   }
 }
  
\ No newline at end of file
@@ -0,0 +1,106 @@
+/**
+ * Chronological archive of turras
+ *
+ * Groups every thread by the year and month of its first tweet for the
+ * /archivo, /archivo/[year] and /archivo/[year]/[month] pages. Dates are read
+ * in UTC so the static pages do not depend on the build machine's timezone.
+ */
+
+import { TweetProvider } from './TweetProvider';
+import { calculateEngagement } from './utils/stats-utils';
+import type { Tweet, TweetWithSummary } from './types';
+
+/** A thread as listed in the archive */
+export interface ArchiveTurra extends TweetWithSummary {
+  /** Category ids from tweets_map.json */
+  categories: string[];
+  /** Canonical page path */
+  path: string;
+}
+
+/** Threads started in one month */
+export interface ArchiveMonth {
+  year: number;
+  /** 1-12 */
+  month: number;
+  count: number;
+}
+
+export const MONTH_NAMES = [
+  'enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio',
+  'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre',
+] as const;
+
+/** Spanish month name for a 1-12 month */
+export function getMonthName(month: number): string {
+  return MONTH_NAMES[month - 1] ?? '';
+}
+
+/** Two-digit month as used in archive URLs, e.g. `05` */
+export function formatMonthParam(month: number): string {
+  return String(month).padStart(2, '0');
+}
+
+/** Parses an archive month segment (`01`-`12`) */
+export function parseMonthParam(value: string): number | null {
+  return /^(0[1-9]|1[0-2])$/.test(value) ? Number(value) : null;
+}
+
+/** Parses an archive year segment (four digits) */
+export function parseYearParam(value: string): number | null {
+  return /^\d{4}$/.test(value) ? Number(value) : null;
+}
+
+export function getArchivePath(year?: number, month?: number): string {
+  if (year === undefined) return '/archivo';
+  if (month === undefined) return `/archivo/${year}`;
+  return `/archivo/${year}/${formatMonthParam(month)}`;
+}
+
+/** Every thread once, newest first */
+export function getArchiveTurras(): ArchiveTurra[] {
+  const tweetProvider = new TweetProvider();
+  const seen = new Set<string>();
+
+  return tweetProvider.getAllTweets()
+    .map((thread) => thread[0])
+    .filter((tweet): tweet is Tweet => {
+      if (!tweet || seen.has(tweet.id)) return false;
+      seen.add(tweet.id);
+      return true;
+    })
+    .map((tweet) => ({
+      id: tweet.id,
+      time: tweet.time,
+      summary: tweetProvider.getSummaryById(tweet.id),
+      stats: tweet.stats,
+      engagement: calculateEngagement(tweet.stats),
+      categories: tweetProvider.getCategoryById(tweet.id),
+      path: tweetProvider.getTurraPath(tweet.id),
+    }))
+    .sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
+}
+
+/** Threads started in a year, or in one month of it */
+export function filterArchiveTurras(turras: ArchiveTurra[], year: number, month?: number): ArchiveTurra[] {
+  return turras.filter((turra) => {
+    const date = new Date(turra.time);
+    return date.getUTCFullYear() === year &&
+      (month === undefined || date.getUTCMonth() + 1 === month);
+  });
+}
+
+/** Years with at least one thread, newest first */
+export function getArchiveYears(turras: ArchiveTurra[]): number[] {
+  const years = new Set(turras.map((turra) => new Date(turra.time).getUTCFullYear()));
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+/** Thread count for each of the 12 months of a year, empty months included */
+export function getMonthCounts(turras: ArchiveTurra[], year: number): ArchiveMonth[] {
+  const counts = Array.from({ length: 12 }, (_, index) => ({ year, month: index + 1, count: 0 }));
+  filterArchiveTurras(turras, year).forEach((turra) => {
+    counts[new Date(turra.time).getUTCMonth()]!.count++;
+  });
+  return counts;
+}
@@ -0,0 +1,13 @@
+/**
+ * The site's authors, from the authors.json registry
+ *
+ * Kept apart from constants.ts, which Deno scripts import without the JSON.
+ */
+
+import authorsData from './db/authors.json';
+import { buildAuthors } from './constants';
+import type { AuthorProfile } from './types';
+
+export const AUTHOR_PROFILES = authorsData as AuthorProfile[];
+
+export const AUTHORS = buildAuthors(AUTHOR_PROFILES);
@@ -0,0 +1,308 @@
+/**
+ * Category registry for the Turrero project
+ *
+ * Single source of truth for the thread categories shown on the site, accepted
+ * by the AI categorizer, ordered in the PDF and listed in the sitemap, plus the
+ * book categories used by the library. Adding a category means adding one
+ * entry here. This file has no imports so Deno scripts can load it as-is.
+ */
+
+// ============================================================================
+// THREAD CATEGORIES
+// ============================================================================
+
+export interface CategoryDefinition {
+  /** Identifier as stored in tweets_map.json (may contain accents) */
+  readonly id: string;
+  /** URL path segment, e.g. `/resolucion-de-problemas-complejos` */
+  readonly slug: string;
+  /** Display name */
+  readonly name: string;
+  /** Intro shown on the category page */
+  readonly description?: string;
+  /** Position on the homepage, the PDF and the sitemap */
+  readonly order: number;
+  /**
+   * Virtual categories are computed from thread data (engagement, date,
+   * author) instead of being assigned in tweets_map.json
+   */
+  readonly virtual: boolean;
+}
+
+export const CATEGORIES: readonly CategoryDefinition[] = [
+  {
+    id: "top-25-turras",
+    slug: "top-25-turras",
+    name: "Top 25 turras",
+    order: 1,
+    virtual: true,
+  },
+  {
+    id: "las-más-nuevas",
+    slug: "las-mas-nuevas",
+    name: "Las más nuevas",
+    order: 2,
+    virtual: true,
+  },
+  {
+    id: "en-tendencia",
+    slug: "en-tendencia",
+    name: "En tendencia",
+    order: 3,
+    virtual: true,
+  },
+  {
+    id: "otros-autores",
+    slug: "otros-autores",
+    name: "Otros autores",
+    order: 4,
+    virtual: true,
+  },
+  {
+    id: "resolución-de-problemas-complejos",
+    slug: "resolucion-de-problemas-complejos",
+    name: "Resolución de problemas complejos",
+    description:
+      "CPS son las siglas de Complex Problem Solving o Resolución de Problemas Complejos, CPS integra conceptos y valores para desafíos que exigen algo más que la experiencia habitual. No es un método rígido, sino una forma flexible de pensar y actuar.",
+    order: 5,
+    virtual: false,
+  },
+  {
+    id: "sistemas-complejos",
+    slug: "sistemas-complejos",
+    name: "Sistemas complejos",
+    description:
+      "Un sistema complejo es un conjunto de partes interrelacionadas que genera comportamientos inesperados al interactuar. Se adapta y evoluciona con el tiempo, como ecosistemas o redes sociales.",
+    order: 6,
+    virtual: false,
+  },
+  {
+    id: "marketing",
+    slug: "marketing",
+    name: "Marketing",
+    description:
+      "El marketing aplicado a problemas complejos analiza diversas variables y propone soluciones con visión amplia. Implica entender el mercado, el entorno y la competencia para adaptarse a los cambios.",
+    order: 7,
+    virtual: false,
+  },
+  {
+    id: "estrategia",
+    slug: "estrategia",
+    name: "Estrategia",
+    description:
+      "La estrategia, según Richard Rumelt, es elegir prioridades y descartar otras opciones para alcanzar metas claras. Busca ventajas competitivas y alinea recursos donde más conviene.",
+    order: 8,
+    virtual: false,
+  },
+  {
+    id: "factor-x",
+    slug: "factor-x",
+    name: "Factor X",
+    description:
+      "El Factor X abarca elementos humanos difíciles de detectar que influyen en sistemas y organizaciones. Su singularidad puede ser decisiva en entornos cambiantes.",
+    order: 9,
+    virtual: false,
+  },
+  {
+    id: "sociología",
+    slug: "sociologia",
+    name: "Sociología",
+    description:
+      "La sociología estudia interacciones y estructuras que conforman la sociedad, abordando problemas sociales complejos y proponiendo mejoras para la convivencia y el bienestar común.",
+    order: 10,
+    virtual: false,
+  },
+  {
+    id: "gestión-del-talento",
+    slug: "gestion-del-talento",
+    name: "Gestión del talento",
+    description:
+      "La gestión del talento identifica, desarrolla y retiene habilidades clave. Alinea el potencial de la gente con los objetivos de la empresa y crea equipos preparados para encarar desafíos.",
+    order: 11,
+    virtual: false,
+  },
+  {
+    id: "leyes-y-sesgos",
+    slug: "leyes-y-sesgos",
+    name: "Leyes y sesgos",
+    description:
+      "Leyes y sesgos señalan las reglas de los sistemas y los patrones que distorsionan las decisiones. Reconocerlos ayuda a evitar errores y a tomar mejores determinaciones.",
+    order: 12,
+    virtual: false,
+  },
+  {
+    id: "trabajo-en-equipo",
+    slug: "trabajo-en-equipo",
+    name: "Trabajo en equipo",
+    description:
+      "El trabajo en equipo reúne talentos y perspectivas distintas para encarar retos complejos. Fomenta comunicación, coordinación y creatividad compartida, logrando soluciones que no se conseguirían en solitario.",
+    order: 13,
+    virtual: false,
+  },
+  {
+    id: "libros",
+    slug: "libros",
+    name: "Libros",
+    description: "Turras que incluyen libros relacionados con el ámbito CPS.",
+    order: 14,
+    virtual: false,
+  },
+  {
+    id: "futurismo-de-frontera",
+    slug: "futurismo-de-frontera",
+    name: "Futurismo de frontera",
+    description:
+      "El futurismo de frontera explora tendencias emergentes y aplica innovaciones que aportan valor a las empresas al enfrentar problemas complejos.",
+    order: 15,
+    virtual: false,
+  },
+  {
+    id: "personotecnia",
+    slug: "personotecnia",
+    name: "Personotecnia",
+    description:
+      "La personotecnia reúne métodos y recursos para crear mensajes muy personalizados. Busca perfilar con más detalle a cada cliente, ofreciendo productos y servicios hechos a su medida.",
+    order: 16,
+    virtual: false,
+  },
+  {
+    id: "orquestación-cognitiva",
+    slug: "orquestacion-cognitiva",
+    name: "Orquestación cognitiva",
+    description:
+      "La orquestación cognitiva es un liderazgo que conecta y coordina a las personas, dentro o fuera de la organización, para enfrentar problemas complejos.",
+    order: 17,
+    virtual: false,
+  },
+  {
+    id: "gaming",
+    slug: "gaming",
+    name: "Gaming",
+    description:
+      "El Gaming en el ámbito CPS impulsa creatividad, estrategia y trabajo conjunto.",
+    order: 18,
+    virtual: false,
+  },
+  {
+    id: "lectura-de-señales",
+    slug: "lectura-de-senales",
+    name: "Lectura de señales",
+    description:
+      "La lectura de señales busca captar indicios clave para anticipar tendencias y abordar problemas complejos.",
+    order: 19,
+    virtual: false,
+  },
+  {
+    id: "el-contexto-manda",
+    slug: "el-contexto-manda",
+    name: "El contexto manda",
+    description:
+      "Según Alicia Juarrero, el contexto determina cómo se afrontan los problemas complejos. Entenderlo es clave para tomar decisiones acertadas y adaptarse a los cambios.",
+    order: 20,
+    virtual: false,
+  },
+  {
+    id: "desarrollo-de-habilidades",
+    slug: "desarrollo-de-habilidades",
+    name: "Desarrollo de habilidades",
+    description:
+      "El desarrollo de habilidades potencia las capacidades personales y colectivas para afrontar y resolver problemas complejos.",
+    order: 21,
+    virtual: false,
+  },
+  {
+    id: "otras-turras-del-querer",
+    slug: "otras-turras-del-querer",
+    name: "Otras turras del querer",
+    description: "Otras turras que no encajan en categorías específicas.",
+    order: 22,
+    virtual: false,
+  },
+].sort((a, b) => a.order - b.order);
+
+/** Category ids that can be assigned to a thread in tweets_map.json */
+export const DATA_CATEGORY_IDS: readonly string[] = CATEGORIES
+  .filter((category) => !category.virtual)
+  .map((category) => category.id);
+
+/**
+ * Normalizes any category id, name or URL segment into its slug form
+ * (lowercase, no diacritics, hyphen separated)
+ */
+export function toCategorySlug(value: string): string {
+  return String(value)
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // Remove diacritics
+    .replace(/[^a-z0-9\s-]/g, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-")
+    .trim();
+}
+
+/**
+ * Finds a category by id, slug or any spelling that normalizes to its slug
+ */
+export function findCategory(value: string): CategoryDefinition | undefined {
+  let decoded = value;
+  try {
+    decoded = decodeURIComponent(value); // Route params may arrive percent-encoded
+  } catch {
+    // Malformed escapes are matched as typed
+  }
+  const slug = toCategorySlug(decoded);
+  return CATEGORIES.find((category) => category.slug === slug);
+}
+
+/**
+ * URL slug for a category id; unregistered ids are slugified directly
+ */
+export function getCategorySlug(id: string): string {
+  return findCategory(id)?.slug ?? toCategorySlug(id);
+}
+
+/**
+ * Display name for a category id, falling back to a prettified id for
+ * categories that are not in the registry
+ */
+export function getCategoryName(id: string): string {
+  return findCategory(id)?.name ??
+    id.replace(/-/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+}
+
+// ============================================================================
+// BOOK CATEGORIES
+// ============================================================================
+
+export interface BookCategoryDefinition {
+  /** Category name as stored in books.json */
+  readonly id: string;
+  /** Spanish display name */
+  readonly name: string;
+}
+
+/** Book categories Goodreads genres are mapped into (see scripts/libs/category-mapper.ts) */
+export const BOOK_CATEGORIES = [
+  { id: "Nonfiction", name: "No ficción" },
+  { id: "Psychology", name: "Psicología" },
+  { id: "History", name: "Historia" },
+  { id: "Business", name: "Negocios y empresa" },
+  { id: "Self Help", name: "Autoayuda" },
+  { id: "Personal Development", name: "Desarrollo personal" },
+  { id: "Technology", name: "Tecnología" },
+  { id: "Science", name: "Ciencia" },
+  { id: "Biography", name: "Biografía" },
+  { id: "Health", name: "Salud" },
+  { id: "Economics", name: "Economía" },
+  { id: "Education", name: "Educación" },
+  { id: "Artificial Intelligence", name: "Inteligencia artificial" },
+  { id: "Games", name: "Juegos" },
+  { id: "Fiction", name: "Ficción" },
+] as const satisfies readonly BookCategoryDefinition[];
+
+export type BookCategoryId = typeof BOOK_CATEGORIES[number]["id"];
+
+/** Spanish name of a book category; unknown categories keep their id */
+export function getBookCategoryName(id: string): string {
+  return BOOK_CATEGORIES.find((category) => category.id === id)?.name ?? id;
+}
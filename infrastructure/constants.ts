@@ -1,3 +1,5 @@
+import type { AuthorProfile } from './types';
+
 export interface Authors {
   readonly MAIN: string;
   readonly CPSCOMUNIDAD: Author;
@@ -11,13 +13,31 @@ export interface Author {
   readonly YOUTUBE: string;
 }
 
-export const fromXtoAuthor = (x: string, displayName?: string): Author => {
-  if (x === AUTHORS.RECUENCO.X) return AUTHORS.RECUENCO;
-  if (x === AUTHORS.VICTOR.X) return AUTHORS.VICTOR;
-  if (x === AUTHORS.CPSCOMUNIDAD.X) return AUTHORS.CPSCOMUNIDAD;
+/** X handles of the authors the site names, as registered in authors.json */
+export const AUTHOR_HANDLES = {
+  RECUENCO: "Recuenco",
+  CPSCOMUNIDAD: "CPSComunidad",
+  VICTOR: "nudpiedo",
+} as const;
 
+/** Author of an authors.json profile */
+export function toAuthor(profile: AuthorProfile): Author {
+  return {
+    NAME: profile.name,
+    X: profile.links.x,
+    YOUTUBE: profile.links.youtube ?? "",
+  };
+}
+
+/**
+ * Author of a thread from its X profile URL: the authors.json profile when the
+ * handle is registered, otherwise one named after the X display name
+ */
+export const fromXtoAuthor = (x: string, displayName: string | undefined, profiles: AuthorProfile[]): Author => {
   const normalizedX = x.replace(/\/+$/, "");
-  const handle = normalizedX.split("/").pop() || "unknown";
+  const handle = getAuthorHandle(normalizedX) || "unknown";
+  const profile = profiles.find((candidate) => candidate.handle.toLowerCase() === handle.toLowerCase());
+  if (profile) return toAuthor(profile);
 
   return {
     NAME: displayName?.trim() || `@${handle}`,
@@ -26,21 +46,63 @@ export const fromXtoAuthor = (x: string, displayName?: string): Author => {
   };
 }
 
-export const AUTHORS: Authors = {
-  MAIN: "Javier G. Recuenco y la Comunidad CPS",
-  CPSCOMUNIDAD: {
-    NAME: "Comunidad CPS",
-    X: "https://x.com/CPSComunidad",
-    YOUTUBE: "https://youtube.com/@cpsspain"
-  },
-  VICTOR: {
-    NAME: "Víctor R. Escobar",
-    X: "https://x.com/nudpiedo",
-    YOUTUBE: "https://youtube.com/@cpsspain"
-  },
-  RECUENCO: {
-    NAME: "Javier G. Recuenco",
-    X: "https://x.com/Recuenco",
-    YOUTUBE: "https://www.youtube.com/results?search_query=Javier+Recuenco"
-  }
-} as const;
+/** The authors the site names, from the authors.json profiles */
+export function buildAuthors(profiles: AuthorProfile[]): Authors {
+  const getAuthor = (handle: string): Author => {
+    const profile = profiles.find((candidate) => candidate.handle === handle);
+    if (!profile) throw new Error(`Author ${handle} is missing from authors.json`);
+    return toAuthor(profile);
+  };
+  const recuenco = getAuthor(AUTHOR_HANDLES.RECUENCO);
+  const cpsComunidad = getAuthor(AUTHOR_HANDLES.CPSCOMUNIDAD);
+
+  return {
+    MAIN: `${recuenco.NAME} y la ${cpsComunidad.NAME}`,
+    CPSCOMUNIDAD: cpsComunidad,
+    VICTOR: getAuthor(AUTHOR_HANDLES.VICTOR),
+    RECUENCO: recuenco,
+  };
+}
+
+/** X handle (without @) from a profile URL such as `https://x.com/Recuenco` */
+export function getAuthorHandle(x: string): string {
+  return x.replace(/\/+$/, "").split("/").pop()?.replace(/^@/, "") ?? "";
+}
+
+/** Author page path; handles are case-insensitive on X, so the path is lowercase */
+export function getAuthorPath(handle: string): string {
+  return `/autor/${handle.toLowerCase()}`;
+}
+
+/** Index page of a thread series */
+export function getSeriesPath(slug: string): string {
+  return `/series/${slug}`;
+}
+
+/** Page of a library book, by its Goodreads id */
+export function getBookPath(bookId: string): string {
+  return `/biblioteca/${bookId}`;
+}
+
+/** Page of a glossary term */
+export function getGlossaryPath(slug: string): string {
+  return `/glosario/${slug}`;
+}
+
+/** Canonical origin of the site, used for absolute URLs in feeds and sitemaps */
+export const SITE_URL = "https://turrero.vercel.app";
+
+/** Site name as shown in metadata and feeds */
+export const SITE_NAME = "El Turrero Post";
+
+/** Title of the podcast feed and of its episodes' series in JSON-LD */
+export const PODCAST_TITLE = `${SITE_NAME} - Podcast`;
+
+/**
+ * Absolute URL for a site path or a path as stored in the db files
+ * (`./metadata/...`); absolute URLs are returned unchanged
+ */
+export function toSiteUrl(path: string): string {
+  if (/^https?:\/\//.test(path)) return path;
+  return `${SITE_URL}/${path.replace(/^\.?\//, "")}`;
+}
@@ -0,0 +1,218 @@
+/**
+ * Syndication feeds for new turras
+ *
+ * Builds the latest threads (overall or per category) as feed items and
+ * serializes them as RSS 2.0, Atom 1.0 and JSON Feed 1.1. Served by
+ * /feed.xml, /atom.xml, /feed.json and /[category]/feed.xml.
+ */
+
+import { TweetProvider } from './TweetProvider';
+import { CategoryDefinition, getCategoryName } from './categories';
+import { SITE_NAME, SITE_URL } from './constants';
+import { AUTHORS } from './authors';
+import type { Tweet } from './types';
+
+/** Number of threads included in every feed */
+export const FEED_SIZE = 25;
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  /** Thread summary */
+  title: string;
+  /** Full thread as HTML */
+  contentHtml: string;
+  published: Date;
+  author: string;
+  /** Category display names */
+  tags: string[];
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** Page the feed mirrors */
+  homePageUrl: string;
+  items: FeedItem[];
+  /** Publication date of the newest item */
+  updated: Date;
+}
+
+export const FEED_CONTENT_TYPES = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+} as const;
+
+// ============================================================================
+// FEED CONTENT
+// ============================================================================
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Escapes a tweet and turns its URLs and line breaks into HTML */
+function tweetToHtml(tweet: Tweet): string {
+  const text = escapeXml(tweet.tweet)
+    .replace(/(https?:\/\/[^\s<]+)/g, '<a href="$1">$1</a>')
+    .replace(/\n/g, '<br/>');
+
+  const images = [
+    ...(tweet.metadata?.imgs?.map((image) => image.img) ?? []),
+    ...(tweet.metadata?.img ? [tweet.metadata.img] : []),
+  ]
+    .filter((src) => /^https?:\/\//.test(src))
+    .map((src) => `<p><img src="${escapeXml(src)}" alt=""/></p>`)
+    .join('');
+
+  return `<p>${text}</p>${images}`;
+}
+
+function toFeedItem(tweetProvider: TweetProvider, mainTweet: Tweet): FeedItem {
+  const thread = tweetProvider.getThread(mainTweet.id);
+  const summary = tweetProvider.getSummaryById(mainTweet.id);
+  return {
+    // The id-only URL stays the item id so readers do not see renamed slugs as new items
+    id: `${SITE_URL}/turra/${mainTweet.id}`,
+    url: `${SITE_URL}${tweetProvider.getTurraPath(mainTweet.id)}`,
+    title: summary || mainTweet.tweet.split('\n')[0]!.slice(0, 120),
+    contentHtml: (thread.length > 0 ? thread : [mainTweet]).map(tweetToHtml).join('\n'),
+    published: new Date(mainTweet.time),
+    author: tweetProvider.getThreadAuthor(mainTweet).NAME,
+    tags: tweetProvider.getCategoryById(mainTweet.id).map(getCategoryName),
+  };
+}
+
+function createFeed(
+  tweetProvider: TweetProvider,
+  mainTweets: Tweet[],
+  details: Pick<Feed, 'title' | 'description' | 'homePageUrl'>
+): Feed {
+  const items = [...mainTweets]
+    .sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime())
+    .slice(0, FEED_SIZE)
+    .map((tweet) => toFeedItem(tweetProvider, tweet));
+
+  return {
+    ...details,
+    items,
+    updated: items[0]?.published ?? new Date(0),
+  };
+}
+
+/** The newest turras of every author */
+export function getLatestFeed(): Feed {
+  const tweetProvider = new TweetProvider();
+  return createFeed(tweetProvider, tweetProvider.get25newestTweets(), {
+    title: SITE_NAME,
+    description: `Las últimas turras de ${AUTHORS.MAIN}`,
+    homePageUrl: SITE_URL,
+  });
+}
+
+/** The newest turras of a (non-virtual) category */
+export function getCategoryFeed(category: CategoryDefinition): Feed {
+  const tweetProvider = new TweetProvider();
+  return createFeed(tweetProvider, tweetProvider.getTweetsByCategory(category.id), {
+    title: `${category.name} - ${SITE_NAME}`,
+    description: category.description ?? `Las últimas turras sobre ${category.name.toLowerCase()}`,
+    homePageUrl: `${SITE_URL}/${category.slug}`,
+  });
+}
+
+// ============================================================================
+// SERIALIZERS
+// ============================================================================
+
+/** RSS 2.0 with the full thread in content:encoded */
+export function renderRssFeed(feed: Feed, feedUrl: string): string {
+  const items = feed.items.map((item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.id)}</guid>
+      <pubDate>${item.published.toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(item.author)}</dc:creator>
+${item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`).join('\n')}
+      <description>${escapeXml(item.title)}</description>
+      <content:encoded><![CDATA[${item.contentHtml.replace(/]]>/g, ']]]]><![CDATA[>')}]]></content:encoded>
+    </item>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homePageUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>es-ES</language>
+    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>
+${items}
+  </channel>
+</rss>
+`;
+}
+
+/** Atom 1.0 with the full thread as HTML content */
+export function renderAtomFeed(feed: Feed, feedUrl: string): string {
+  const entries = feed.items.map((item) => `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <link href="${escapeXml(item.url)}"/>
+    <id>${escapeXml(item.id)}</id>
+    <published>${item.published.toISOString()}</published>
+    <updated>${item.published.toISOString()}</updated>
+    <author><name>${escapeXml(item.author)}</name></author>
+${item.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>`).join('\n')}
+    <summary>${escapeXml(item.title)}</summary>
+    <content type="html">${escapeXml(item.contentHtml)}</content>
+  </entry>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="es">
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link href="${escapeXml(feed.homePageUrl)}"/>
+  <link href="${escapeXml(feedUrl)}" rel="self" type="application/atom+xml"/>
+  <id>${escapeXml(feed.homePageUrl)}/</id>
+  <updated>${feed.updated.toISOString()}</updated>
+${entries}
+</feed>
+`;
+}
+
+/** JSON Feed 1.1 (https://jsonfeed.org/version/1.1) */
+export function renderJsonFeed(feed: Feed, feedUrl: string): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.homePageUrl,
+    feed_url: feedUrl,
+    description: feed.description,
+    language: 'es',
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      content_html: item.contentHtml,
+      summary: item.title,
+      date_published: item.published.toISOString(),
+      authors: [{ name: item.author }],
+      tags: item.tags,
+    })),
+  }, null, 2);
+}
+
+/** Wraps a serialized feed with its content type and CDN caching */
+export function createFeedResponse(body: string, contentType: string): Response {
+  return new Response(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Cache-Control': 'public, max-age=3600, s-maxage=3600, stale-while-revalidate=86400',
+    },
+  });
+}
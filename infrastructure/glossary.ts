@@ -0,0 +1,297 @@
+/**
+ * Glossary term pages
+ *
+ * glosario.csv only has a term, a definition and a free-form reference, so the
+ * rest is read from the conventions the file already follows:
+ * - A parenthesis after the term is an alias, as in "Cinco Porqués (5 Whys)",
+ *   unless it names another term, which makes it a qualifier, as in
+ *   "Caótico (Cynefin)", or is a word fragment, as in "Tendencias (macro-)"
+ * - A parenthesis opening the definition is an alias, as in
+ *   "(loose coupling) Describe cómo...", unless it is a list
+ * - "Véase X" in the definition or the reference points to another term; the
+ *   rest of the reference is the source
+ *
+ * Terms are found in turra text by their name or aliases, ignoring case and
+ * accents, to mark them in the tweets and to list the turras of each term.
+ */
+
+import { foldText } from './SearchIndex';
+import { getGlossaryPath } from './constants';
+import { slugify } from './utils/text-utils';
+import type { GlossaryTerm, ThreadId, Tweet, TweetId } from './types';
+
+/** A glossary term with what its page shows */
+export interface GlossaryEntry {
+  slug: string;
+  /** Term as written in glosario.csv */
+  term: string;
+  /** Term without the alias or note in parentheses; qualifiers are kept */
+  name: string;
+  /** Other names of the term, e.g. the English one */
+  aliases: string[];
+  /** Slug of the term this one is a case of, e.g. `cynefin` for "Caótico (Cynefin)" */
+  qualifier?: string;
+  /** Definition without its leading alias */
+  definition: string;
+  /** Reference without its "Véase" cross-references */
+  source: string;
+  /** Slugs of the terms cross-referenced in either direction or sharing a qualifier */
+  related: string[];
+  /** Canonical page path */
+  path: string;
+  /** Index letter: uppercase and without accents, `#` for anything else */
+  letter: string;
+}
+
+const TRAILING_PARENTHESIS = /^(.*?)\s*\(([^)]+)\)$/;
+const LEADING_PARENTHESIS = /^\(([^)]+)\)\s*/;
+const SEE_ALSO = /V[eé]ase\s+([^.;\n]+)[.;]?/gi;
+
+/** Names and aliases shorter than this match too many unrelated words */
+const MIN_MATCH_LENGTH = 3;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function getSeeAlsoTargets(text: string): string[] {
+  return Array.from(text.matchAll(SEE_ALSO), (match) => match[1]!.trim());
+}
+
+/** Entry slug for a "Véase" target, tried as written and in singular */
+function resolveTarget(target: string, slugsByName: Map<string, string>): string | undefined {
+  const folded = foldText(target);
+  return slugsByName.get(folded) ?? slugsByName.get(folded.replace(/e?s$/, ''));
+}
+
+/** Entries for every term, sorted by name */
+export function buildGlossaryEntries(terms: GlossaryTerm[]): GlossaryEntry[] {
+  const usedSlugs = new Set<string>();
+  const parsed = terms.map((term) => {
+    const match = term.term.match(TRAILING_PARENTHESIS);
+    const baseSlug = slugify(term.term) || 'termino';
+    let slug = baseSlug;
+    for (let suffix = 2; usedSlugs.has(slug); suffix++) slug = `${baseSlug}-${suffix}`;
+    usedSlugs.add(slug);
+    return { term, slug, name: match ? match[1]! : term.term, parenthesis: match?.[2]?.trim() };
+  });
+
+  const slugsByBaseName = new Map(parsed.map((entry) => [foldText(entry.name), entry.slug]));
+  const entries: GlossaryEntry[] = parsed.map(({ term, slug, name, parenthesis }) => {
+    const aliases: string[] = [];
+    let qualifier: string | undefined;
+    if (parenthesis) {
+      const qualifierSlug = slugsByBaseName.get(foldText(parenthesis));
+      if (qualifierSlug && qualifierSlug !== slug) {
+        qualifier = qualifierSlug;
+      } else if (!parenthesis.startsWith('-') && !parenthesis.endsWith('-')) {
+        aliases.push(parenthesis);
+      }
+    }
+
+    let definition = term.definition;
+    const leading = definition.match(LEADING_PARENTHESIS);
+    if (leading && !leading[1]!.includes(',')) {
+      aliases.push(leading[1]!.trim());
+      definition = definition.slice(leading[0].length);
+    }
+
+    return {
+      slug,
+      term: term.term,
+      name: qualifier ? term.term : name,
+      aliases,
+      ...(qualifier ? { qualifier } : {}),
+      definition,
+      source: term.reference.replace(SEE_ALSO, '').trim(),
+      related: [],
+      path: getGlossaryPath(slug),
+      letter: getGlossaryLetter(name),
+    };
+  });
+
+  // Cross-references may use any name of a term
+  const slugsByName = new Map<string, string>();
+  entries.forEach((entry) => {
+    [entry.term, entry.name, ...entry.aliases].forEach((name) => {
+      const folded = foldText(name);
+      if (!slugsByName.has(folded)) slugsByName.set(folded, entry.slug);
+    });
+  });
+
+  const related = new Map(entries.map((entry) => [entry.slug, new Set<string>()]));
+  const link = (a: string, b: string) => {
+    if (a === b) return;
+    related.get(a)?.add(b);
+    related.get(b)?.add(a);
+  };
+  terms.forEach((term, index) => {
+    const slug = entries[index]!.slug;
+    getSeeAlsoTargets(`${term.definition}\n${term.reference}`).forEach((target) => {
+      const targetSlug = resolveTarget(target, slugsByName);
+      if (targetSlug) link(slug, targetSlug);
+    });
+  });
+  entries.forEach((entry) => {
+    if (!entry.qualifier) return;
+    link(entry.slug, entry.qualifier);
+    entries
+      .filter((other) => other.qualifier === entry.qualifier)
+      .forEach((other) => link(entry.slug, other.slug));
+  });
+
+  const names = new Map(entries.map((entry) => [entry.slug, entry.name]));
+  const byName = (a: string, b: string) => (names.get(a) ?? a).localeCompare(names.get(b) ?? b, 'es');
+  entries.forEach((entry) => {
+    entry.related = Array.from(related.get(entry.slug) ?? []).sort(byName);
+  });
+
+  return entries.sort((a, b) => a.term.localeCompare(b.term, 'es'));
+}
+
+/** Index letter of a term name */
+export function getGlossaryLetter(name: string): string {
+  const first = foldText(name.trim()).charAt(0).toUpperCase();
+  return /^[A-Z]$/.test(first) ? first : '#';
+}
+
+/** Finds glossary terms in text by their name or aliases */
+export interface GlossaryMatcher {
+  /** Matches folded text with one capturing group per name */
+  pattern: RegExp;
+  /** Entry of each group of the pattern, in order */
+  entries: GlossaryEntry[];
+}
+
+/** Part of a text, with the entry it names when it is a glossary term */
+export interface GlossaryTextPart {
+  text: string;
+  entry?: GlossaryEntry;
+}
+
+/** URLs and mentions are rendered as links, never as glossary terms */
+const LINK_PATTERN = /(@\w+)|(https?:\/\/[^\s]+)/g;
+
+/**
+ * Names a term is found by. Qualified terms such as "Simple (Cynefin)" are
+ * too generic without their qualifier and are never matched.
+ */
+function getMatchNames(entry: GlossaryEntry): string[] {
+  if (entry.qualifier) return [];
+  return [entry.name, ...entry.aliases]
+    .map((name) => foldText(name.trim()))
+    .filter((name) => name.length >= MIN_MATCH_LENGTH);
+}
+
+/** Pattern for a folded name with any of its words in plural */
+function toNamePattern(name: string): string {
+  return name.split(/\s+/).map((word) => `${escapeRegExp(word)}(?:e?s)?`).join('\\s+');
+}
+
+/**
+ * Matcher for every term, ignoring case and accents and accepting plurals.
+ * Longer names are tried first, so "Incentivo perverso" wins over "Incentivo".
+ */
+export function createGlossaryMatcher(entries: GlossaryEntry[]): GlossaryMatcher | null {
+  const entriesByName = new Map<string, GlossaryEntry>();
+  entries.forEach((entry) => {
+    getMatchNames(entry).forEach((name) => {
+      if (!entriesByName.has(name)) entriesByName.set(name, entry);
+    });
+  });
+  if (entriesByName.size === 0) return null;
+
+  const names = Array.from(entriesByName.keys()).sort((a, b) => b.length - a.length);
+  const alternatives = names.map((name) => `(${toNamePattern(name)})`).join('|');
+  return {
+    pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'gu'),
+    entries: names.map((name) => entriesByName.get(name)!),
+  };
+}
+
+/**
+ * Folded text with the offset in the original text where each folded
+ * character starts, plus the original length at the end
+ */
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = '';
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const foldedChar = foldText(char);
+    for (let index = 0; index < foldedChar.length; index++) offsets.push(offset);
+    folded += foldedChar;
+    offset += char.length;
+  }
+  offsets.push(text.length);
+  return { folded, offsets };
+}
+
+/** Glossary entries named in a text, in order, with where they are in it */
+function findTerms(text: string, matcher: GlossaryMatcher): { entry: GlossaryEntry; start: number; end: number }[] {
+  const { folded, offsets } = foldWithOffsets(text);
+  return Array.from(folded.matchAll(matcher.pattern), (match) => ({
+    entry: matcher.entries[match.findIndex((group, index) => index > 0 && group !== undefined) - 1]!,
+    start: offsets[match.index]!,
+    end: offsets[match.index + match[0].length]!,
+  }));
+}
+
+/**
+ * Splits plain text (without URLs or mentions) into glossary terms and the
+ * text between them. Only terms in `pending` are marked, at their first match,
+ * and each marked term is removed from it.
+ */
+export function splitGlossaryTerms(
+  text: string,
+  matcher: GlossaryMatcher,
+  pending: Set<string>,
+): GlossaryTextPart[] {
+  const parts: GlossaryTextPart[] = [];
+  let position = 0;
+  for (const { entry, start, end } of findTerms(text, matcher)) {
+    if (!pending.delete(entry.slug)) continue;
+    if (start > position) parts.push({ text: text.slice(position, start) });
+    parts.push({ text: text.slice(start, end), entry });
+    position = end;
+  }
+  if (position < text.length) parts.push({ text: text.slice(position) });
+  return parts;
+}
+
+/**
+ * Slugs to mark in each tweet of a thread: every term is marked only where
+ * the thread first mentions it
+ */
+export function getFirstGlossaryMentions(thread: Tweet[], matcher: GlossaryMatcher): Map<TweetId, Set<string>> {
+  const seen = new Set<string>();
+  return new Map(thread.map((tweet) => {
+    const slugs = new Set<string>();
+    for (const { entry } of findTerms(tweet.tweet.replace(LINK_PATTERN, ' '), matcher)) {
+      if (seen.has(entry.slug)) continue;
+      seen.add(entry.slug);
+      slugs.add(entry.slug);
+    }
+    return [tweet.id, slugs];
+  }));
+}
+
+/** Mentions of every term in the text of each thread, by term slug */
+export function countGlossaryMentions(threads: Tweet[][], matcher: GlossaryMatcher): Map<string, Map<ThreadId, number>> {
+  const index = new Map<string, Map<ThreadId, number>>();
+  const indexed = new Set<ThreadId>();
+  for (const thread of threads) {
+    const threadId = thread[0]?.id;
+    if (!threadId || indexed.has(threadId)) continue;
+    indexed.add(threadId);
+
+    const text = thread.map((tweet) => tweet.tweet.replace(LINK_PATTERN, ' ')).join('\n');
+    for (const { entry } of findTerms(text, matcher)) {
+      const mentions = index.get(entry.slug) ?? new Map<ThreadId, number>();
+      mentions.set(threadId, (mentions.get(threadId) ?? 0) + 1);
+      index.set(entry.slug, mentions);
+    }
+  }
+
+  return index;
+}
@@ -2,9 +2,18 @@ import { TweetProvider } from "./TweetProvider";
 import fs from 'node:fs';
 import path from 'node:path';
 import { parse } from '@fast-csv/parse';
+import { CATEGORIES } from './categories';
+import { SearchIndex, SEARCH_INDEX_VERSION, createSearchIndexEntries, getThreadSearchData } from './SearchIndex';
+import type { Book, GlossaryTerm, SerializedSearchIndex, Tweet as ThreadTweet, TurraDetail, TurraListItem } from './types';
+import { SITE_URL } from './constants';
+import { getPodcastEpisode } from './podcast';
+import { getArchiveTurras, type ArchiveTurra } from './archive';
+import { buildGlossaryEntries, countGlossaryMentions, createGlossaryMatcher, type GlossaryEntry, type GlossaryMatcher } from './glossary';
+import { calculateEngagement } from './utils/stats-utils';
 
 // Re-export all types from the consolidated types file
 export * from './types';
+export * from './categories';
 
 // Legacy interfaces for backward compatibility
 export interface Tweet {
@@ -14,47 +23,15 @@ export interface Tweet {
   createdAt: Date;
 }
 
-export interface Book {
-  id: string;
-  type: 'card';
-  img: string;
-  url: string;
-  media: string;
-  turraId: string;
-  title: string;
-  categories: string[];
-  goodreadsCategories?: string[];
-}
-
-export interface GlossaryTerm {
-  term: string;
-  definition: string;
-  reference: string;
-}
+// Loaded once per server instance, like the TweetProvider data
+let searchIndex: SearchIndex | null = null;
+let books: Book[] | null = null;
+let booksById: Map<string, Book> | null = null;
 
-const Categories: string[] = [
-    "top-25-turras",
-    "las-más-nuevas",
-    "otros-autores",
-    "resolución-de-problemas-complejos",
-    "sistemas-complejos",
-    "marketing",
-    "estrategia",
-    "factor-x",
-    "sociología",
-    "gestión-del-talento",
-    "leyes-y-sesgos",
-    "trabajo-en-equipo",
-    "libros",
-    "futurismo-de-frontera",
-    "personotecnia",
-    "orquestación-cognitiva",
-    "gaming",
-    "lectura-de-señales",
-    "el-contexto-manda",
-    "desarrollo-de-habilidades",
-    "otras-turras-del-querer",
-];
+// Built on first use; the glossary and the turras do not change during a build
+let glossaryEntries: Promise<GlossaryEntry[]> | null = null;
+let glossaryMatcher: Promise<GlossaryMatcher | null> | null = null;
+let glossaryMentions: Promise<Map<string, Map<string, number>>> | null = null;
 
 export class TweetFacade {
   public tweets: Tweet[] = [];
@@ -64,22 +41,105 @@ export class TweetFacade {
     this.tweetProvider = new TweetProvider();
   }
 
+  /** Category ids in display order, including virtual categories */
   getCategories(): string[] {
-    return Categories;
+    return CATEGORIES.map(category => category.id);
   }
 
   getBooks(): Book[] {
-    const books = JSON.parse(fs.readFileSync(path.join(process.cwd(), 'infrastructure/db/books.json'), 'utf-8'));
+    books ??= JSON.parse(fs.readFileSync(path.join(process.cwd(), 'infrastructure/db/books.json'), 'utf-8')) as Book[];
     return books;
   }
 
+  /** A book by its Goodreads id */
+  getBookById(goodreadsId: string): Book | undefined {
+    booksById ??= new Map(this.getBooks().map(book => [book.goodreadsId, book]));
+    return booksById.get(goodreadsId);
+  }
+
   getBookCategories(): string[] {
-    const books = this.getBooks();
     const categories = new Set<string>();
-    books.forEach(book => book.categories.forEach(category => categories.add(category)));
+    this.getBooks().forEach(book => book.categories.forEach(category => categories.add(category)));
     return Array.from(categories).sort();
   }
 
+  /**
+   * Full-text index over tweets and summaries. Uses the prebuilt
+   * search_index.json (deno task algolia) when it is current and otherwise
+   * builds the index from the loaded threads.
+   */
+  getSearchIndex(): SearchIndex {
+    if (searchIndex) return searchIndex;
+
+    const filePath = path.join(process.cwd(), 'infrastructure/db/search_index.json');
+    if (fs.existsSync(filePath)) {
+      const data: SerializedSearchIndex = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      if (data.version === SEARCH_INDEX_VERSION) {
+        searchIndex = SearchIndex.fromJSON(data);
+        return searchIndex;
+      }
+    }
+
+    searchIndex = SearchIndex.build(createSearchIndexEntries(
+      this.tweetProvider.getAllTweets(),
+      mainTweet => getThreadSearchData(mainTweet, this.tweetProvider)
+    ));
+    return searchIndex;
+  }
+
+  /** One entry per thread, newest first, as served by /api/v1/turras */
+  getTurraList(): TurraListItem[] {
+    const seen = new Set<string>();
+    return this.tweetProvider.getAllTweets()
+      .filter(thread => {
+        const id = thread[0]?.id;
+        if (!id || seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      })
+      .map(thread => this.toTurraListItem(thread))
+      .sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
+  }
+
+  /** Thread with its enrichments, exam and podcast, by any of its tweet ids */
+  getTurraDetail(id: string): TurraDetail | null {
+    const thread = this.tweetProvider.getThread(id);
+    const mainTweet = thread[0];
+    if (!mainTweet) return null;
+
+    const exam = this.tweetProvider.getExamById(mainTweet.id);
+    const episode = getPodcastEpisode(mainTweet.id);
+    return {
+      ...this.toTurraListItem(thread),
+      thread,
+      enrichments: thread.flatMap(tweet => this.tweetProvider.getAllEnrichedTweetData(tweet.id)),
+      ...(exam ? { exam } : {}),
+      ...(episode ? {
+        podcast: {
+          audioUrl: episode.audioUrl,
+          ...(episode.transcriptUrl ? { transcriptUrl: episode.transcriptUrl } : {}),
+        },
+      } : {}),
+    };
+  }
+
+  private toTurraListItem(thread: ThreadTweet[]): TurraListItem {
+    const mainTweet = thread[0]!;
+    const author = this.tweetProvider.getThreadAuthor(mainTweet);
+    return {
+      id: mainTweet.id,
+      url: `${SITE_URL}${this.tweetProvider.getTurraPath(mainTweet.id)}`,
+      summary: this.tweetProvider.getSummaryById(mainTweet.id),
+      author: { name: author.NAME, x: author.X },
+      time: mainTweet.time,
+      categories: this.tweetProvider.getCategoryById(mainTweet.id),
+      engagement: calculateEngagement(mainTweet.stats),
+      tweetCount: thread.length,
+      hasExam: this.tweetProvider.getExamById(mainTweet.id) !== undefined,
+      hasPodcast: this.tweetProvider.hasPodcast(mainTweet.id),
+    };
+  }
+
   async getGlossaryTerms(): Promise<GlossaryTerm[]> {
     const filePath = path.join(process.cwd(), 'infrastructure/db/glosario.csv');
     const results: GlossaryTerm[] = [];
@@ -104,4 +164,29 @@ export class TweetFacade {
         .on('end', () => resolve(results));
     });
   }
+
+  /** Glossary terms with their aliases and cross-references, sorted by name */
+  getGlossaryEntries(): Promise<GlossaryEntry[]> {
+    glossaryEntries ??= this.getGlossaryTerms().then(buildGlossaryEntries);
+    return glossaryEntries;
+  }
+
+  /** Matcher for every glossary term name and alias, null when the glossary is empty */
+  getGlossaryMatcher(): Promise<GlossaryMatcher | null> {
+    glossaryMatcher ??= this.getGlossaryEntries().then(createGlossaryMatcher);
+    return glossaryMatcher;
+  }
+
+  /** Turras whose text mentions a glossary term, most mentions first */
+  async getGlossaryTermTurras(slug: string): Promise<ArchiveTurra[]> {
+    glossaryMentions ??= this.getGlossaryMatcher().then(matcher =>
+      matcher ? countGlossaryMentions(this.tweetProvider.getAllTweets(), matcher) : new Map<string, Map<string, number>>()
+    );
+    const mentions = (await glossaryMentions).get(slug);
+    if (!mentions) return [];
+
+    return getArchiveTurras()
+      .filter((turra) => mentions.has(turra.id))
+      .sort((a, b) => mentions.get(b.id)! - mentions.get(a.id)! || b.engagement - a.engagement);
+  }
 }
@@ -0,0 +1,103 @@
+/**
+ * Search, category filters and sorting of the /biblioteca book grid
+ *
+ * Filtering runs in the browser over every book; the filters are kept in the
+ * query string so a filtered library can be shared as a link.
+ */
+
+import { foldText } from './SearchIndex';
+import { getTweetTimestamp } from './utils/id-utils';
+import type { Book } from './index';
+
+/** Query string keys, in Spanish like the site's routes */
+export const LIBRARY_PARAMS = {
+  QUERY: 'q',
+  CATEGORIES: 'categorias',
+  MATCH: 'coincidencia',
+  SORT: 'orden',
+} as const;
+
+export const LIBRARY_SORTS = ['citas', 'reciente', 'titulo'] as const;
+
+export type LibrarySort = typeof LIBRARY_SORTS[number];
+
+/** Whether a book needs every selected category or any of them */
+export type CategoryMatch = 'todas' | 'alguna';
+
+export interface LibraryFilters {
+  query: string;
+  /** Book category ids, e.g. `Psychology` */
+  categories: string[];
+  match: CategoryMatch;
+  sort: LibrarySort;
+}
+
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = {
+  query: '',
+  categories: [],
+  match: 'alguna',
+  sort: 'citas',
+};
+
+/** A book category with the number of books in it */
+export interface LibraryCategory {
+  id: string;
+  name: string;
+  count: number;
+}
+
+/**
+ * Reads the filters from a query string, ignoring unknown or malformed values
+ */
+export function parseLibraryFilters(params: URLSearchParams): LibraryFilters {
+  const sort = LIBRARY_SORTS.find((value) => value === params.get(LIBRARY_PARAMS.SORT));
+  return {
+    query: params.get(LIBRARY_PARAMS.QUERY) ?? '',
+    categories: (params.get(LIBRARY_PARAMS.CATEGORIES) ?? '').split(',').filter(Boolean),
+    match: params.get(LIBRARY_PARAMS.MATCH) === 'todas' ? 'todas' : 'alguna',
+    sort: sort ?? DEFAULT_LIBRARY_FILTERS.sort,
+  };
+}
+
+/**
+ * Builds the query string for the filters, omitting defaults
+ */
+export function buildLibraryParams(filters: LibraryFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set(LIBRARY_PARAMS.QUERY, filters.query.trim());
+  if (filters.categories.length > 0) params.set(LIBRARY_PARAMS.CATEGORIES, filters.categories.join(','));
+  // The match mode only matters with more than one category
+  if (filters.categories.length > 1 && filters.match !== DEFAULT_LIBRARY_FILTERS.match) {
+    params.set(LIBRARY_PARAMS.MATCH, filters.match);
+  }
+  if (filters.sort !== DEFAULT_LIBRARY_FILTERS.sort) params.set(LIBRARY_PARAMS.SORT, filters.sort);
+  return params;
+}
+
+/** Time of the latest tweet citing a book, 0 when unknown */
+function getLatestMention(book: Book): number {
+  return Math.max(0, ...book.tweetIds.map((id) => getTweetTimestamp(id)?.getTime() ?? 0));
+}
+
+const compareTitles = (a: Book, b: Book) => a.title.localeCompare(b.title, 'es');
+
+const SORTERS: Record<LibrarySort, (a: Book, b: Book) => number> = {
+  citas: (a, b) => b.turraIds.length - a.turraIds.length || b.tweetIds.length - a.tweetIds.length || compareTitles(a, b),
+  reciente: (a, b) => getLatestMention(b) - getLatestMention(a) || compareTitles(a, b),
+  titulo: compareTitles,
+};
+
+/** Books matching every word of the query in their title or author, when known, and the selected categories, sorted */
+export function filterBooks(books: Book[], filters: LibraryFilters): Book[] {
+  const words = foldText(filters.query).split(/\s+/).filter(Boolean);
+  const matchesCategories = (book: Book) => filters.categories.length === 0 || (filters.match === 'todas'
+    ? filters.categories.every((category) => book.categories.includes(category))
+    : filters.categories.some((category) => book.categories.includes(category)));
+
+  return books
+    .filter((book) => {
+      const text = foldText(`${book.title} ${book.author ?? ''}`);
+      return words.every((word) => text.includes(word)) && matchesCategories(book);
+    })
+    .sort(SORTERS[filters.sort]);
+}
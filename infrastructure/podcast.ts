@@ -0,0 +1,130 @@
+/**
+ * Podcast feed for the turras narrated as audio
+ *
+ * Episodes come from tweets_podcast.json; fields the backfill script
+ * (deno task podcast:backfill) has not filled yet fall back to the thread
+ * data. Transcripts are the narration scripts in infrastructure/db/podcast.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { TweetProvider } from './TweetProvider';
+import { PODCAST_TITLE, SITE_URL } from './constants';
+import { AUTHORS } from './authors';
+import { escapeXml } from './feeds';
+import type { PodcastEpisode, PodcastFeedEpisode } from './types';
+
+const TRANSCRIPTS_DIR = path.join(process.cwd(), 'infrastructure/db/podcast');
+
+/** Channel artwork, a 1400px square RGB PNG as Apple Podcasts requires (1400-3000px) */
+const PODCAST_ARTWORK = `${SITE_URL}/podcast-artwork.png`;
+
+/** Default public location of an episode's audio */
+export function getPodcastAudioPath(id: string): string {
+  return `/podcast/${id}.mp3`;
+}
+
+/** Narration script of an episode, or null when there is none */
+export function getPodcastTranscript(id: string): string | null {
+  // Ids are digits only, so the path cannot escape the transcripts folder
+  if (!/^\d+$/.test(id)) return null;
+  const filePath = path.join(TRANSCRIPTS_DIR, `${id}.txt`);
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+}
+
+function toFeedEpisode(tweetProvider: TweetProvider, episode: PodcastEpisode): PodcastFeedEpisode | undefined {
+  const mainTweet = tweetProvider.getThread(episode.id)[0];
+  if (!mainTweet) return undefined;
+
+  const summary = tweetProvider.getSummaryById(mainTweet.id);
+  const hasTranscript = fs.existsSync(path.join(TRANSCRIPTS_DIR, `${mainTweet.id}.txt`));
+  return {
+    id: mainTweet.id,
+    title: episode.title || summary,
+    description: episode.description || summary,
+    url: `${SITE_URL}${tweetProvider.getTurraPath(mainTweet.id)}`,
+    audioUrl: episode.audioUrl || `${SITE_URL}${getPodcastAudioPath(mainTweet.id)}`,
+    // RSS requires the enclosure length; 0 until the backfill measures the audio
+    size: typeof episode.size === 'number' && episode.size > 0 ? episode.size : 0,
+    ...(episode.duration !== undefined ? { duration: episode.duration } : {}),
+    published: new Date(episode.publishedAt || mainTweet.time),
+    ...(hasTranscript ? { transcriptUrl: `${SITE_URL}/podcast/${mainTweet.id}/transcript.txt` } : {}),
+  };
+}
+
+/** Episodes newest first, with thread data filling the fields not backfilled yet */
+export function getPodcastEpisodes(): PodcastFeedEpisode[] {
+  const tweetProvider = new TweetProvider();
+
+  return tweetProvider.getPodcastEpisodes()
+    .map((episode) => toFeedEpisode(tweetProvider, episode))
+    .filter((episode): episode is PodcastFeedEpisode => episode !== undefined)
+    .sort((a, b) => b.published.getTime() - a.published.getTime());
+}
+
+/** Episode of a thread (by any of its tweet ids) */
+export function getPodcastEpisode(id: string): PodcastFeedEpisode | undefined {
+  const tweetProvider = new TweetProvider();
+  const episode = tweetProvider.getPodcastEpisode(id);
+  return episode ? toFeedEpisode(tweetProvider, episode) : undefined;
+}
+
+/** Seconds as HH:MM:SS for itunes:duration */
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return [Math.floor(total / 3600), Math.floor((total % 3600) / 60), total % 60]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+}
+
+/** RSS 2.0 with iTunes and Podcasting 2.0 tags */
+export function renderPodcastFeed(episodes: PodcastFeedEpisode[], feedUrl: string): string {
+  const title = PODCAST_TITLE;
+  const description = `Las turras de ${AUTHORS.MAIN}, narradas en audio.`;
+  const updated = episodes[0]?.published ?? new Date(0);
+
+  const items = episodes.map((episode) => `    <item>
+      <title>${escapeXml(episode.title)}</title>
+      <link>${escapeXml(episode.url)}</link>
+      <guid isPermaLink="false">${escapeXml(episode.id)}</guid>
+      <pubDate>${episode.published.toUTCString()}</pubDate>
+      <description>${escapeXml(episode.description)}</description>
+      <enclosure url="${escapeXml(episode.audioUrl)}" length="${episode.size}" type="audio/mpeg"/>
+      <itunes:title>${escapeXml(episode.title)}</itunes:title>
+      <itunes:summary>${escapeXml(episode.description)}</itunes:summary>
+      <itunes:episodeType>full</itunes:episodeType>
+      <itunes:explicit>false</itunes:explicit>
+${episode.duration !== undefined ? `      <itunes:duration>${formatDuration(episode.duration)}</itunes:duration>\n` : ''}${episode.transcriptUrl ? `      <podcast:transcript url="${escapeXml(episode.transcriptUrl)}" type="text/plain" language="es"/>\n` : ''}    </item>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+    <title>${escapeXml(title)}</title>
+    <link>${SITE_URL}</link>
+    <description>${escapeXml(description)}</description>
+    <language>es-ES</language>
+    <lastBuildDate>${updated.toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>
+    <image>
+      <url>${PODCAST_ARTWORK}</url>
+      <title>${escapeXml(title)}</title>
+      <link>${SITE_URL}</link>
+    </image>
+    <itunes:author>${escapeXml(AUTHORS.MAIN)}</itunes:author>
+    <itunes:summary>${escapeXml(description)}</itunes:summary>
+    <itunes:owner>
+      <itunes:name>${escapeXml(AUTHORS.CPSCOMUNIDAD.NAME)}</itunes:name>
+    </itunes:owner>
+    <itunes:image href="${PODCAST_ARTWORK}"/>
+    <itunes:category text="Business">
+      <itunes:category text="Management"/>
+    </itunes:category>
+    <itunes:category text="Education"/>
+    <itunes:explicit>false</itunes:explicit>
+    <itunes:type>episodic</itunes:type>
+    <podcast:medium>podcast</podcast:medium>
+${items}
+  </channel>
+</rss>
+`;
+}
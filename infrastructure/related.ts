@@ -0,0 +1,160 @@
+/**
+ * Related turras for the "Turras relacionadas" block of the turra sidebar
+ *
+ * Candidates are ranked by a score that adds up graph adjacency in
+ * processed_graph_data.json (in either direction), shared categories and
+ * shared citations (Goodreads books and linked domains). Threads missing from
+ * the graph are ranked by category similarity alone, with citations as a
+ * tie-breaker.
+ */
+
+import { TweetProvider } from './TweetProvider';
+import { calculateEngagement } from './utils/stats-utils';
+import { calculateReadingTime } from './utils/text-utils';
+import { getGoodreadsBookId } from './utils/book-utils';
+import type { EnrichedTweetMetadata, ThreadId, Tweet } from './types';
+
+/** A related thread as shown in the sidebar */
+export interface RelatedTurra {
+  id: ThreadId;
+  summary: string;
+  /** Canonical page path */
+  path: string;
+  /** Minutes */
+  readingTime: number;
+  score: number;
+}
+
+/** Threads shown by default */
+export const RELATED_TURRAS_LIMIT = 5;
+
+const SCORE_WEIGHTS = {
+  graph: 3,
+  category: 1,
+  book: 2,
+  domain: 0.5,
+};
+
+/** Links to the platform itself say nothing about the topic */
+const IGNORED_DOMAINS = new Set(['x.com', 'twitter.com', 't.co']);
+
+interface ThreadCitations {
+  books: Set<string>;
+  domains: Set<string>;
+}
+
+// Built on first use; the underlying data does not change during a build
+let graphNeighbours: Map<ThreadId, Set<ThreadId>> | null = null;
+let citationsByThreadId: Map<ThreadId, ThreadCitations> | null = null;
+
+/** Related threads of every graph node, made symmetric */
+function getGraphNeighbours(tweetProvider: TweetProvider): Map<ThreadId, Set<ThreadId>> {
+  if (graphNeighbours) return graphNeighbours;
+
+  const neighbours = new Map<ThreadId, Set<ThreadId>>();
+  const link = (from: ThreadId, to: ThreadId) => {
+    const set = neighbours.get(from) ?? new Set<ThreadId>();
+    set.add(to);
+    neighbours.set(from, set);
+  };
+  for (const node of tweetProvider.getGraphData()) {
+    if (!neighbours.has(node.id)) neighbours.set(node.id, new Set());
+    for (const related of node.related_threads) {
+      if (related === node.id) continue;
+      link(node.id, related);
+      link(related, node.id);
+    }
+  }
+
+  graphNeighbours = neighbours;
+  return neighbours;
+}
+
+function getCitedDomain(enrichment: EnrichedTweetMetadata): string | undefined {
+  const candidates = [enrichment.url, enrichment.domain && `https://${enrichment.domain}`];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return new URL(candidate).hostname.replace(/^www\./, '').toLowerCase();
+    } catch {
+      // Not a URL, e.g. a card domain with spaces
+    }
+  }
+  return undefined;
+}
+
+function getThreadCitations(tweetProvider: TweetProvider, thread: Tweet[]): ThreadCitations {
+  const citations: ThreadCitations = { books: new Set(), domains: new Set() };
+  for (const enrichment of thread.flatMap((tweet) => tweetProvider.getAllEnrichedTweetData(tweet.id))) {
+    const bookId = enrichment.url ? getGoodreadsBookId(enrichment.url) : undefined;
+    if (bookId) citations.books.add(bookId);
+    const domain = getCitedDomain(enrichment);
+    if (domain && !IGNORED_DOMAINS.has(domain)) citations.domains.add(domain);
+  }
+  return citations;
+}
+
+function getCitations(tweetProvider: TweetProvider): Map<ThreadId, ThreadCitations> {
+  if (citationsByThreadId) return citationsByThreadId;
+
+  const citations = new Map<ThreadId, ThreadCitations>();
+  for (const thread of tweetProvider.getAllTweets()) {
+    const mainTweet = thread[0];
+    if (mainTweet && !citations.has(mainTweet.id)) {
+      citations.set(mainTweet.id, getThreadCitations(tweetProvider, thread));
+    }
+  }
+
+  citationsByThreadId = citations;
+  return citations;
+}
+
+function countShared<T>(a: Set<T> | T[], b: Set<T>): number {
+  let count = 0;
+  for (const item of a) {
+    if (b.has(item)) count++;
+  }
+  return count;
+}
+
+/** Best related threads of a thread, highest score first */
+export function getRelatedTurras(threadId: ThreadId, limit = RELATED_TURRAS_LIMIT): RelatedTurra[] {
+  const tweetProvider = new TweetProvider();
+  const neighbours = getGraphNeighbours(tweetProvider).get(threadId);
+  const citations = getCitations(tweetProvider);
+  const categories = new Set(tweetProvider.getCategoryById(threadId));
+  const ownCitations = citations.get(threadId) ?? { books: new Set<string>(), domains: new Set<string>() };
+
+  const scored: { id: ThreadId; score: number; engagement: number }[] = [];
+  for (const [candidateId, candidateCitations] of citations) {
+    if (candidateId === threadId) continue;
+
+    const inGraph = neighbours?.has(candidateId) ?? false;
+    const sharedCategories = countShared(tweetProvider.getCategoryById(candidateId), categories);
+    const sharedBooks = countShared(candidateCitations.books, ownCitations.books);
+    // Shared domains only break ties; on their own they are too common to relate two threads
+    if (!inGraph && sharedCategories === 0 && sharedBooks === 0) continue;
+
+    const sharedDomains = countShared(candidateCitations.domains, ownCitations.domains);
+    const candidate = tweetProvider.getTweetById(candidateId);
+    scored.push({
+      id: candidateId,
+      score: (inGraph ? SCORE_WEIGHTS.graph : 0) +
+        sharedCategories * SCORE_WEIGHTS.category +
+        sharedBooks * SCORE_WEIGHTS.book +
+        sharedDomains * SCORE_WEIGHTS.domain,
+      engagement: candidate ? calculateEngagement(candidate.stats) : 0,
+    });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.engagement - a.engagement)
+    .slice(0, limit)
+    .map(({ id, score }) => ({
+      id,
+      summary: tweetProvider.getSummaryById(id),
+      path: tweetProvider.getTurraPath(id),
+      readingTime: calculateReadingTime(tweetProvider.getThread(id)),
+      score,
+    }));
+}
@@ -0,0 +1,183 @@
+/**
+ * Sitemaps for search engines
+ *
+ * The site publishes a sitemap index at /sitemap.xml pointing to one sitemap
+ * per section (/sitemap/{section}.xml, served by app/sitemap.ts). Thread
+ * entries carry the images of their tweets from tweets_enriched.json.
+ */
+
+import type { MetadataRoute } from 'next';
+import { TweetFacade } from './index';
+import { CATEGORIES } from './categories';
+import { SITE_URL, getAuthorPath, getBookPath, getSeriesPath, toSiteUrl } from './constants';
+import { escapeXml } from './feeds';
+import { getArchivePath, getArchiveTurras, getArchiveYears, getMonthCounts } from './archive';
+
+export const SITEMAP_SECTIONS = ['paginas', 'turras', 'categorias', 'archivo', 'biblioteca', 'glosario'] as const;
+
+export type SitemapSection = typeof SITEMAP_SECTIONS[number];
+
+/** Pages that are not generated from data */
+const STATIC_PAGES: { path: string; changeFrequency: 'daily' | 'weekly' | 'monthly'; priority: number }[] = [
+  { path: '', changeFrequency: 'daily', priority: 1 },
+  { path: '/hall-of-fame', changeFrequency: 'weekly', priority: 0.8 },
+  { path: '/grafo-de-turras', changeFrequency: 'weekly', priority: 0.7 },
+  { path: '/sobre-esta-web', changeFrequency: 'monthly', priority: 0.5 },
+  { path: '/version-en-pdf', changeFrequency: 'monthly', priority: 0.5 },
+  { path: '/contacto', changeFrequency: 'monthly', priority: 0.5 },
+];
+
+function isSitemapSection(value: string): value is SitemapSection {
+  return (SITEMAP_SECTIONS as readonly string[]).includes(value);
+}
+
+/** Static pages and one page per author and per series */
+function getPageEntries(tweetFacade: TweetFacade): MetadataRoute.Sitemap {
+  const tweetProvider = tweetFacade.tweetProvider;
+  const authorPages = tweetProvider.getAuthorHandles().map((handle) => ({
+    path: getAuthorPath(handle),
+    changeFrequency: 'weekly' as const,
+    priority: 0.6,
+  }));
+  const seriesPages = tweetProvider.getAllSeries().map((series) => ({
+    path: getSeriesPath(series.slug),
+    changeFrequency: 'monthly' as const,
+    priority: 0.7,
+  }));
+
+  return [...STATIC_PAGES, ...authorPages, ...seriesPages].map(({ path, changeFrequency, priority }) => ({
+    url: `${SITE_URL}${path}`,
+    lastModified: new Date(),
+    changeFrequency,
+    priority,
+  }));
+}
+
+/** One entry per thread, last modified at its latest tweet, with its media */
+function getTurraEntries(tweetFacade: TweetFacade): MetadataRoute.Sitemap {
+  const tweetProvider = tweetFacade.tweetProvider;
+
+  return tweetFacade.getTurraList().map((turra) => {
+    const thread = tweetProvider.getThread(turra.id);
+    const lastModified = Math.max(...thread.map((tweet) => new Date(tweet.time).getTime()));
+    const images = thread
+      .flatMap((tweet) => tweetProvider.getAllEnrichedTweetData(tweet.id))
+      .filter((enrichment) => (enrichment.type === 'media' || enrichment.type === 'image') && enrichment.img)
+      .map((enrichment) => toSiteUrl(enrichment.img!));
+
+    return {
+      url: `${SITE_URL}${tweetProvider.getTurraPath(turra.id)}`,
+      lastModified: new Date(Number.isFinite(lastModified) ? lastModified : turra.time),
+      changeFrequency: 'monthly' as const,
+      priority: 0.6,
+      ...(images.length > 0 ? { images: Array.from(new Set(images)) } : {}),
+    };
+  });
+}
+
+function getCategoryEntries(): MetadataRoute.Sitemap {
+  // Virtual categories are homepage blocks without a page of their own
+  return CATEGORIES
+    .filter((category) => !category.virtual)
+    .map((category) => ({
+      url: `${SITE_URL}/${category.slug}`,
+      lastModified: new Date(),
+      changeFrequency: 'daily' as const,
+      priority: 0.9,
+    }));
+}
+
+/** Archive index, year and month pages */
+function getArchiveEntries(): MetadataRoute.Sitemap {
+  const turras = getArchiveTurras();
+  const paths = [getArchivePath()];
+  getArchiveYears(turras).forEach((year) => {
+    paths.push(getArchivePath(year));
+    getMonthCounts(turras, year)
+      .filter((month) => month.count > 0)
+      .forEach((month) => paths.push(getArchivePath(year, month.month)));
+  });
+
+  return paths.map((path) => ({
+    url: `${SITE_URL}${path}`,
+    lastModified: new Date(),
+    changeFrequency: 'weekly' as const,
+    priority: 0.5,
+  }));
+}
+
+/** The library page with the covers of its books, and one page per book */
+function getBookEntries(tweetFacade: TweetFacade): MetadataRoute.Sitemap {
+  const books = tweetFacade.getBooks();
+  const covers = books
+    .filter((book) => book.img)
+    .map((book) => toSiteUrl(book.img));
+  const bookPages = books.map((book) => ({
+    url: `${SITE_URL}${getBookPath(book.goodreadsId)}`,
+    lastModified: new Date(),
+    changeFrequency: 'monthly' as const,
+    priority: 0.5,
+    ...(book.img ? { images: [toSiteUrl(book.img)] } : {}),
+  }));
+
+  return [{
+    url: `${SITE_URL}/biblioteca`,
+    lastModified: new Date(),
+    changeFrequency: 'weekly',
+    priority: 0.8,
+    ...(covers.length > 0 ? { images: Array.from(new Set(covers)) } : {}),
+  }, ...bookPages];
+}
+
+/** The glossary index and one page per term */
+async function getGlossaryEntries(tweetFacade: TweetFacade): Promise<MetadataRoute.Sitemap> {
+  const termPages = (await tweetFacade.getGlossaryEntries()).map((entry) => ({
+    url: `${SITE_URL}${entry.path}`,
+    lastModified: new Date(),
+    changeFrequency: 'monthly' as const,
+    priority: 0.6,
+  }));
+
+  return [{
+    url: `${SITE_URL}/glosario`,
+    lastModified: new Date(),
+    changeFrequency: 'weekly',
+    priority: 0.8,
+  }, ...termPages];
+}
+
+/** Entries of one section sitemap; unknown sections are empty */
+export async function getSitemapEntries(section: string): Promise<MetadataRoute.Sitemap> {
+  if (!isSitemapSection(section)) return [];
+
+  const tweetFacade = new TweetFacade();
+  switch (section) {
+    case 'paginas':
+      return getPageEntries(tweetFacade);
+    case 'turras':
+      return getTurraEntries(tweetFacade);
+    case 'categorias':
+      return getCategoryEntries();
+    case 'archivo':
+      return getArchiveEntries();
+    case 'biblioteca':
+      return getBookEntries(tweetFacade);
+    case 'glosario':
+      return getGlossaryEntries(tweetFacade);
+  }
+}
+
+/** Sitemap index listing every section sitemap */
+export function renderSitemapIndex(): string {
+  const lastModified = new Date().toISOString();
+  const sitemaps = SITEMAP_SECTIONS.map((section) => `  <sitemap>
+    <loc>${escapeXml(`${SITE_URL}/sitemap/${section}.xml`)}</loc>
+    <lastmod>${lastModified}</lastmod>
+  </sitemap>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps}
+</sitemapindex>
+`;
+}
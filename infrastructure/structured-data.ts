@@ -0,0 +1,239 @@
+/**
+ * Schema.org structured data (JSON-LD) for the site pages
+ *
+ * Each builder returns a plain object ready to be serialized by the JsonLd
+ * component: Article and Quiz on turra pages, PodcastEpisode when the turra
+ * has audio, an ItemList of Book on /biblioteca and a Book on each book page,
+ * a DefinedTermSet on /glosario and a BreadcrumbList on category pages.
+ */
+
+import { AUTHOR_HANDLES, PODCAST_TITLE, SITE_NAME, SITE_URL, getAuthorHandle, getBookPath, toSiteUrl, type Author } from './constants';
+import { getCategoryName } from './categories';
+import { countWords } from './utils/text-utils';
+import type { GlossaryEntry } from './glossary';
+import type { Book, PodcastFeedEpisode, Tweet, TweetExam } from './types';
+
+export type JsonLdObject = Record<string, unknown>;
+
+const SCHEMA_CONTEXT = 'https://schema.org';
+
+/** Google truncates Article headlines longer than this */
+const MAX_HEADLINE_LENGTH = 110;
+
+const PUBLISHER: JsonLdObject = {
+  '@type': 'Organization',
+  name: SITE_NAME,
+  url: SITE_URL,
+  logo: {
+    '@type': 'ImageObject',
+    url: `${SITE_URL}/android-chrome-512x512.png`,
+  },
+};
+
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+/** ISO 8601 duration, e.g. `PT12M5S` */
+function toIsoDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = total % 60;
+  return `PT${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${rest || total === 0 ? `${rest}S` : ''}`;
+}
+
+function toPerson(author: Author): JsonLdObject {
+  const isCommunity = getAuthorHandle(author.X) === AUTHOR_HANDLES.CPSCOMUNIDAD;
+  return {
+    '@type': isCommunity ? 'Organization' : 'Person',
+    name: author.NAME,
+    url: author.X,
+  };
+}
+
+export interface ArticleData {
+  thread: Tweet[];
+  summary: string;
+  /** Canonical page path, `/turra/{id}/{slug}` */
+  path: string;
+  categories: string[];
+  /** Byline, as resolved by TweetProvider.getThreadAuthor */
+  author: Author;
+}
+
+/** The thread as an Article written by its author */
+export function buildArticleJsonLd({ thread, summary, path, categories, author }: ArticleData): JsonLdObject | null {
+  const mainTweet = thread[0];
+  if (!mainTweet) return null;
+
+  const url = `${SITE_URL}${path}`;
+  const lastTweet = thread.reduce((latest, tweet) =>
+    new Date(tweet.time).getTime() > new Date(latest.time).getTime() ? tweet : latest
+  );
+
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'Article',
+    '@id': `${url}#article`,
+    headline: truncate(summary || mainTweet.tweet, MAX_HEADLINE_LENGTH),
+    description: summary,
+    url,
+    mainEntityOfPage: url,
+    image: `${SITE_URL}/api/og/${mainTweet.id}`,
+    datePublished: mainTweet.time,
+    dateModified: lastTweet.time,
+    wordCount: countWords(thread),
+    inLanguage: 'es',
+    author: toPerson(author),
+    publisher: PUBLISHER,
+    ...(categories.length > 0 ? { articleSection: categories.map(getCategoryName) } : {}),
+  };
+}
+
+/** The thread's exam as a multiple choice Quiz about the article */
+export function buildQuizJsonLd(exam: TweetExam, summary: string, path: string): JsonLdObject | null {
+  // Answers are 1-based, as the exam UI reads them
+  const questions = exam.questions.filter((question) => question.options[question.answer - 1] !== undefined);
+  if (questions.length === 0) return null;
+
+  const url = `${SITE_URL}${path}`;
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'Quiz',
+    name: `Test: ${summary}`,
+    url: `${url}#test`,
+    about: { '@id': `${url}#article` },
+    inLanguage: 'es',
+    hasPart: questions.map((question) => ({
+      '@type': 'Question',
+      eduQuestionType: 'Multiple choice',
+      text: question.question,
+      suggestedAnswer: question.options
+        .map((option, index) => ({ '@type': 'Answer', text: option, position: index }))
+        .filter((option) => option.position !== question.answer - 1),
+      acceptedAnswer: {
+        '@type': 'Answer',
+        text: question.options[question.answer - 1],
+        position: question.answer - 1,
+      },
+    })),
+  };
+}
+
+/** The audio version of a thread as an episode of the site podcast */
+export function buildPodcastEpisodeJsonLd(episode: PodcastFeedEpisode): JsonLdObject {
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'PodcastEpisode',
+    name: episode.title,
+    description: episode.description,
+    url: episode.url,
+    datePublished: episode.published.toISOString(),
+    inLanguage: 'es',
+    ...(episode.duration !== undefined ? { timeRequired: toIsoDuration(episode.duration) } : {}),
+    associatedMedia: {
+      '@type': 'MediaObject',
+      contentUrl: episode.audioUrl,
+      encodingFormat: 'audio/mpeg',
+      ...(episode.duration !== undefined ? { duration: toIsoDuration(episode.duration) } : {}),
+    },
+    ...(episode.transcriptUrl ? { transcript: episode.transcriptUrl } : {}),
+    partOfSeries: {
+      '@type': 'PodcastSeries',
+      name: PODCAST_TITLE,
+      url: `${SITE_URL}/podcast.xml`,
+    },
+  };
+}
+
+/** Books of the library as an ItemList of Book */
+export function buildBookListJsonLd(books: Book[]): JsonLdObject {
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'ItemList',
+    name: `Biblioteca - ${SITE_NAME}`,
+    url: `${SITE_URL}/biblioteca`,
+    numberOfItems: books.length,
+    itemListElement: books.map((book, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      item: toBook(book),
+    })),
+  };
+}
+
+function toBook(book: Book): JsonLdObject {
+  return {
+    '@type': 'Book',
+    name: book.title,
+    url: `${SITE_URL}${getBookPath(book.goodreadsId)}`,
+    ...(book.url ? { sameAs: book.url } : {}),
+    ...(book.img ? { image: toSiteUrl(book.img) } : {}),
+    ...(book.categories.length > 0 ? { genre: book.categories } : {}),
+  };
+}
+
+/** One book page */
+export function buildBookJsonLd(book: Book): JsonLdObject {
+  return {
+    '@context': SCHEMA_CONTEXT,
+    ...toBook(book),
+  };
+}
+
+const GLOSSARY_URL = `${SITE_URL}/glosario`;
+
+function toDefinedTerm(entry: GlossaryEntry): JsonLdObject {
+  return {
+    '@type': 'DefinedTerm',
+    '@id': `${SITE_URL}${entry.path}`,
+    name: entry.name,
+    ...(entry.aliases.length > 0 ? { alternateName: entry.aliases } : {}),
+    description: entry.definition,
+    url: `${SITE_URL}${entry.path}`,
+    inDefinedTermSet: GLOSSARY_URL,
+  };
+}
+
+/** The glossary as a DefinedTermSet */
+export function buildGlossaryJsonLd(entries: GlossaryEntry[]): JsonLdObject {
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'DefinedTermSet',
+    '@id': GLOSSARY_URL,
+    name: 'Glosario CPS',
+    url: GLOSSARY_URL,
+    inLanguage: 'es',
+    hasDefinedTerm: entries.map(toDefinedTerm),
+  };
+}
+
+/** One glossary term page */
+export function buildDefinedTermJsonLd(entry: GlossaryEntry): JsonLdObject {
+  return {
+    '@context': SCHEMA_CONTEXT,
+    ...toDefinedTerm(entry),
+    inLanguage: 'es',
+  };
+}
+
+export interface Breadcrumb {
+  name: string;
+  /** Site path, e.g. `/estrategia` */
+  path: string;
+}
+
+/** Navigation trail from the homepage, which is always the first item */
+export function buildBreadcrumbJsonLd(trail: Breadcrumb[]): JsonLdObject {
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'BreadcrumbList',
+    itemListElement: [{ name: 'Inicio', path: '' }, ...trail].map((crumb, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: crumb.name,
+      item: `${SITE_URL}${crumb.path}`,
+    })),
+  };
+}
@@ -34,6 +34,34 @@ export interface TweetStats {
   quotetweets: string;
   /** Number of likes as string */
   likes: string;
+  /** The same stats as numbers, parsed at scrape time */
+  counts?: TweetStatCounts;
+}
+
+/** Numeric tweet statistics */
+export interface TweetStatCounts {
+  views: number;
+  retweets: number;
+  quotetweets: number;
+  likes: number;
+}
+
+/** First tweet stats of a thread on one day */
+export interface StatsSnapshot {
+  /** UTC day, `YYYY-MM-DD` */
+  date: string;
+  views: number;
+  likes: number;
+  retweets: number;
+  bookmarks: number;
+}
+
+/** Stats history of a thread as stored in tweets_stats_history.json */
+export interface ThreadStatsHistory {
+  /** Thread ID */
+  id: ThreadId;
+  /** One snapshot per day, oldest first */
+  snapshots: StatsSnapshot[];
 }
 
 /** Embedded tweet metadata within a tweet */
@@ -92,6 +120,12 @@ export interface TweetWithEngagement extends Tweet {
   engagement: number;
 }
 
+/** First tweet of a thread ranked by recent engagement growth */
+export interface TrendingTweet extends TweetWithEngagement {
+  /** Engagement gained over the trending window */
+  growth: number;
+}
+
 /** Tweet with summary for display in category cards */
 export interface TweetWithSummary {
   id: ThreadId;
@@ -187,7 +221,7 @@ export interface QuizQuestion {
   question: string;
   /** Array of possible answers */
   options: string[];
-  /** Index of correct answer (0-based) */
+  /** Position of the correct answer in options (1-based) */
   answer: number;
 }
 
@@ -207,6 +241,8 @@ export interface TweetExam {
 export interface TurraNode {
   /** Tweet thread ID */
   id: ThreadId;
+  /** X.com URL of the thread */
+  url: string;
   /** Thread summary */
   summary: string;
   /** Array of category names */
@@ -249,6 +285,62 @@ export interface Authors {
   RECUENCO: Author;
 }
 
+/** Author profile as stored in authors.json */
+export interface AuthorProfile {
+  /** X handle without @, e.g. `Recuenco` */
+  handle: string;
+  /** Display name */
+  name: string;
+  /** Short biography */
+  bio?: string;
+  /** Avatar image, a site path or an absolute URL */
+  avatar?: string;
+  links: {
+    /** X.com profile URL */
+    x: string;
+    youtube?: string;
+    web?: string;
+  };
+}
+
+// ============================================================================
+// SERIES TYPES
+// ============================================================================
+
+/** One thread of a series */
+export interface SeriesPart {
+  /** Id of the first tweet of the thread */
+  id: ThreadId;
+  /** Title of the part within the series */
+  title: string;
+}
+
+/** Multi-part series of threads as stored in series.json */
+export interface ThreadSeries {
+  /** URL segment of /series/[slug] */
+  slug: string;
+  title: string;
+  description: string;
+  /** Shown in the hall of fame */
+  featured?: boolean;
+  /**
+   * Threads on a topic rather than a saga: listed by date, without part
+   * numbers or previous/next navigation on the turras
+   */
+  collection?: boolean;
+  /** Threads in reading order, by date in collections */
+  parts: SeriesPart[];
+}
+
+/** Where a thread sits within its series */
+export interface SeriesPosition {
+  series: ThreadSeries;
+  /** 1-based part number */
+  part: number;
+  previous: SeriesPart | null;
+  next: SeriesPart | null;
+}
+
 // ============================================================================
 // BOOK & REFERENCE TYPES
 // ============================================================================
@@ -271,6 +363,33 @@ export interface BookReference {
   sourceThreadId?: string;
 }
 
+/** Book in the library, as stored in books.json */
+export interface Book {
+  id: string;
+  type: 'card';
+  img: string;
+  url: string;
+  media: string;
+  turraId: string;
+  /** Goodreads id, or the citing tweet id for books linked elsewhere */
+  goodreadsId: string;
+  /** Every thread citing the book, in citation order */
+  turraIds: string[];
+  /** Every tweet citing the book, in citation order */
+  tweetIds: string[];
+  title: string;
+  author?: string;
+  categories: string[];
+  goodreadsCategories?: string[];
+}
+
+/** Glossary row, as stored in glosario.csv */
+export interface GlossaryTerm {
+  term: string;
+  definition: string;
+  reference: string;
+}
+
 /** Enriched book with additional metadata */
 export interface EnrichedBook extends BookReference {
   /** ISBN number */
@@ -299,17 +418,35 @@ export interface PodcastEpisode {
   description?: string;
   /** Audio file URL */
   audioUrl?: string;
+  /** Audio file size in bytes (RSS enclosure length) */
+  size?: number;
   /** Episode duration in seconds */
   duration?: number;
   /** Publication date */
   publishedAt?: string;
 }
 
+/** A podcast episode as published in the feed */
+export interface PodcastFeedEpisode {
+  id: string;
+  title: string;
+  description: string;
+  /** Turra page of the episode */
+  url: string;
+  audioUrl: string;
+  /** Audio size in bytes, 0 when not backfilled yet */
+  size: number;
+  /** Duration in seconds */
+  duration?: number;
+  published: Date;
+  transcriptUrl?: string;
+}
+
 // ============================================================================
 // SEARCH & INDEXING TYPES
 // ============================================================================
 
-/** Algolia search index structure */
+/** Searchable document: one per tweet, carrying its thread's data */
 export interface SearchIndexEntry {
   /** Unique identifier */
   objectID: CompositeId;
@@ -317,14 +454,76 @@ export interface SearchIndexEntry {
   tweet: string;
   /** Thread summary */
   summary: string;
-  /** Author name */
+  /** Author display name */
+  author: string;
+  /** Category ids from tweets_map.json */
+  categories: string[];
+  /** Publication timestamp of the thread */
+  time: string;
+  /** Engagement of the thread's first tweet */
+  engagement: number;
+  /** Whether the thread is by the main author (otherwise `otros-autores`) */
+  isMainAuthor: boolean;
+  /** Whether the thread has an exam in tweets_exam.json */
+  hasExam: boolean;
+  /** Whether the thread has a podcast episode in tweets_podcast.json */
+  hasPodcast: boolean;
+}
+
+/** Fields of a SearchIndexEntry that are tokenized into the search index */
+export type SearchField = 'tweet' | 'summary';
+
+/** Postings of one field: term -> [entry position, token positions][] */
+export interface SerializedFieldIndex {
+  /** Token count of the field for every entry */
+  lengths: number[];
+  /** Entries containing each term, with the positions where it appears */
+  postings: Record<string, Array<[number, number[]]>>;
+}
+
+/** Search index as written to infrastructure/db/search_index.json */
+export interface SerializedSearchIndex {
+  /** Format version, bumped when the analyzer or layout changes */
+  version: number;
+  /** Indexed documents */
+  entries: SearchIndexEntry[];
+  /** Per-field inverted indexes */
+  fields: Record<SearchField, SerializedFieldIndex>;
+}
+
+/** Tweet matching a search query */
+export interface SearchHit {
+  /** Composite id of the matching tweet */
+  objectID: CompositeId;
+  /** Matching tweet */
+  tweetId: TweetId;
+  /** Relevance score (BM25, higher is better) */
+  score: number;
+  /** Excerpt of the tweet, HTML-escaped, matches wrapped in <em> */
+  snippet: string;
+}
+
+/** Thread with the tweets that matched a search query, best first */
+export interface SearchThreadResult {
+  threadId: ThreadId;
+  /** Thread summary */
+  summary: string;
+  /** Thread summary, HTML-escaped, matches wrapped in <em> */
+  highlightedSummary: string;
+  /** Author display name */
   author: string;
-  /** Category tags */
+  /** Category ids from tweets_map.json */
   categories: string[];
   /** Publication timestamp */
   time: string;
-  /** Engagement metrics */
+  /** Engagement of the first tweet */
   engagement: number;
+  /** Relevance score: the best score of each query term within the thread, summed */
+  score: number;
+  /** Number of tweets of the thread whose own text matched */
+  matches: number;
+  /** Best matching tweets (at most a few per thread) */
+  hits: SearchHit[];
 }
 
 // ============================================================================
@@ -345,7 +544,7 @@ export interface CategoryCardProps {
 export interface TweetContentProps {
   /** Tweet data to render */
   tweet: Tweet;
-  /** HTML element ID for the tweet */
+  /** Tweet ID; the element gets the `t-{id}` anchor */
   id: string;
 }
 
@@ -458,14 +657,108 @@ export interface ApiResponse<T = unknown> {
   };
 }
 
+/** Author facet: threads by the main author or by `otros-autores` */
+export type SearchAuthorFilter = 'principal' | 'otros-autores';
+
+/** Filters that narrow a search; all of them must hold */
+export interface SearchFilters {
+  /** Category id from tweets_map.json */
+  category?: string;
+  author?: SearchAuthorFilter;
+  /** Publication year, e.g. 2023 */
+  year?: number;
+  /** Publication month, 1-12 */
+  month?: number;
+  /** Only threads with an exam */
+  hasExam?: boolean;
+  /** Only threads with a podcast episode */
+  hasPodcast?: boolean;
+}
+
+/** Number of matching threads for one facet value */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Facet counts for a search. Each facet is counted with every filter applied
+ * except its own, so the alternatives to a selected value stay visible.
+ */
+export interface SearchFacets {
+  categories: FacetCount[];
+  authors: FacetCount[];
+  years: FacetCount[];
+  months: FacetCount[];
+  /** Threads with an exam */
+  exam: number;
+  /** Threads with a podcast episode */
+  podcast: number;
+}
+
 /** Search API response */
-export interface SearchApiResponse extends ApiResponse<SearchIndexEntry[]> {
+export interface SearchApiResponse extends ApiResponse<SearchThreadResult[]> {
   /** Search query that was executed */
   query: string;
+  /** Filters that were applied */
+  filters: SearchFilters;
+  /** Facet counts for the query */
+  facets: SearchFacets;
   /** Time taken for search in milliseconds */
   searchTime: number;
 }
 
+// ============================================================================
+// PUBLIC API (v1) TYPES
+// ============================================================================
+
+/** Thread as listed by /api/v1/turras */
+export interface TurraListItem {
+  /** Thread ID */
+  id: ThreadId;
+  /** Canonical page URL */
+  url: string;
+  /** Thread summary */
+  summary: string;
+  /** Author display name and profile URL */
+  author: { name: string; x: string };
+  /** Publication timestamp */
+  time: string;
+  /** Category ids from tweets_map.json */
+  categories: string[];
+  /** Engagement of the first tweet */
+  engagement: number;
+  /** Number of tweets in the thread */
+  tweetCount: number;
+  hasExam: boolean;
+  hasPodcast: boolean;
+}
+
+/** Thread with all its data, as returned by /api/v1/turras/[id] */
+export interface TurraDetail extends TurraListItem {
+  /** Tweets of the thread in order */
+  thread: Tweet[];
+  /** Cards, embeds and media extracted from the tweets */
+  enrichments: EnrichedTweetMetadata[];
+  exam?: TweetExam;
+  podcast?: {
+    audioUrl: string;
+    transcriptUrl?: string;
+  };
+}
+
+/** Category as returned by /api/v1/categories */
+export interface CategoryListItem {
+  id: string;
+  slug: string;
+  name: string;
+  description?: string;
+  /** Category page URL */
+  url: string;
+  /** Number of threads in the category */
+  turraCount: number;
+}
+
 // ============================================================================
 // EXTERNAL API TYPES
 // ============================================================================
@@ -596,6 +889,7 @@ export enum CategoryType {
   FORMACION = 'formacion',
   TOP_25_TURRAS = 'top-25-turras',
   LAS_MAS_NUEVAS = 'las-más-nuevas',
+  EN_TENDENCIA = 'en-tendencia',
   OTROS_AUTORES = 'otros-autores'
 }
 
@@ -731,6 +1025,12 @@ export interface BookToEnrich {
   image?: string;
   sourceThreadId?: string;
   turraId?: string;
+  /** Goodreads id, or the citing tweet id for books linked elsewhere */
+  goodreadsId?: string;
+  /** Every thread citing the book, in citation order */
+  turraIds?: ThreadId[];
+  /** Every tweet citing the book, in citation order */
+  tweetIds?: TweetId[];
   categories?: string[];
   goodreadsCategories?: string[];
 }
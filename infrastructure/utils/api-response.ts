@@ -0,0 +1,70 @@
+/**
+ * Response helpers for the public JSON API (/api/v1)
+ *
+ * Every response uses the ApiResponse envelope and carries a weak ETag of its
+ * body, so clients can revalidate with If-None-Match and get a 304 back.
+ */
+
+import { createHash } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import type { ApiResponse } from '../types';
+
+export const API_DEFAULT_LIMIT = 20;
+export const API_MAX_LIMIT = 100;
+
+const CACHE_CONTROL = 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400';
+
+export interface Pagination {
+  page: number;
+  limit: number;
+}
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Reads `page` and `limit` (capped at API_MAX_LIMIT) from the query string */
+export function parsePagination(searchParams: URLSearchParams): Pagination {
+  return {
+    page: parsePositiveInt(searchParams.get('page'), 1),
+    limit: Math.min(parsePositiveInt(searchParams.get('limit'), API_DEFAULT_LIMIT), API_MAX_LIMIT),
+  };
+}
+
+/** Slice of `items` for the requested page, with the envelope metadata */
+export function paginate<T>(items: T[], { page, limit }: Pagination): ApiResponse<T[]> {
+  return {
+    success: true,
+    data: items.slice((page - 1) * limit, page * limit),
+    meta: { total: items.length, page, limit },
+  };
+}
+
+/**
+ * Serializes `body` with cache headers, answering 304 when the request's
+ * If-None-Match already holds the current ETag
+ */
+export function apiResponse<T>(request: Request, body: ApiResponse<T>, status = 200): NextResponse {
+  const json = JSON.stringify(body);
+  const etag = `W/"${createHash('sha1').update(json).digest('base64url')}"`;
+  const headers = {
+    'Cache-Control': CACHE_CONTROL,
+    ETag: etag,
+  };
+
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (status === 200 && ifNoneMatch?.split(',').some(tag => tag.trim() === etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(json, {
+    status,
+    headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+  });
+}
+
+/** Error envelope; errors are not cached */
+export function apiError(message: string, status: number): NextResponse {
+  return NextResponse.json<ApiResponse>({ success: false, error: message }, { status });
+}
@@ -0,0 +1,17 @@
+/**
+ * Book utilities shared by the site and the Deno book scripts
+ *
+ * The same book is often cited with different Goodreads URLs (with or without
+ * a title slug, with a locale such as `/es/book/show/...`), so books are
+ * identified by the numeric Goodreads id in the URL.
+ */
+
+/** Goodreads book id, e.g. `51485709` from `/book/show/51485709-your-business` */
+export function getGoodreadsBookId(url: string): string | undefined {
+  return url.match(/goodreads\.com\/(?:[a-z]{2}\/)?book\/show\/(\d+)/)?.[1];
+}
+
+/** Canonical id of a book: its Goodreads id, or the citing tweet for other links */
+export function getBookKey(book: { id: string; url?: string }): string {
+  return (book.url && getGoodreadsBookId(book.url)) || book.id;
+}
@@ -102,6 +102,13 @@ export function extractThreadId(id: string): ThreadId {
   throw new Error(`Cannot extract thread ID from: ${id}`);
 }
 
+/**
+ * HTML anchor of a tweet on its thread page, e.g. `/turra/{threadId}#t-{tweetId}`
+ */
+export function getTweetAnchor(tweetId: TweetId): string {
+  return `t-${tweetId}`;
+}
+
 /**
  * Extracts tweet ID from composite ID, returns undefined for thread-only IDs
  */
@@ -164,6 +171,46 @@ export function categoriesToString(categories: string[]): string {
   return categories.join(',');
 }
 
+/** X snowflake epoch, 2010-11-04T01:42:54.657Z */
+const SNOWFLAKE_EPOCH_MS = 1288834974657n;
+
+/** First snowflake id; older tweets have sequential ids without a timestamp */
+const FIRST_SNOWFLAKE_ID = 29700859247n;
+
+/**
+ * Largest gap accepted between a scraped tweet time and the time decoded from
+ * its id (the page shows whole seconds, the id has milliseconds)
+ */
+export const TWEET_TIME_TOLERANCE_MS = 60 * 1000;
+
+/**
+ * Creation time encoded in a tweet ID (the top 42 bits of a snowflake are
+ * milliseconds since the X epoch); undefined for invalid or pre-2010 IDs
+ */
+export function getTweetTimestamp(id: TweetId): Date | undefined {
+  if (!isValidTwitterId(id)) return undefined;
+
+  const snowflake = BigInt(id);
+  if (snowflake < FIRST_SNOWFLAKE_ID) return undefined;
+  return new Date(Number((snowflake >> 22n) + SNOWFLAKE_EPOCH_MS));
+}
+
+/**
+ * Tweet time to store: the scraped time when it agrees with the ID, the time
+ * decoded from the ID when the scraped one is missing, unparseable or off by
+ * more than TWEET_TIME_TOLERANCE_MS
+ */
+export function resolveTweetTime(id: TweetId, scrapedTime: string | undefined): string {
+  const decoded = getTweetTimestamp(id);
+  if (!decoded) return scrapedTime ?? '';
+
+  const scraped = scrapedTime ? new Date(scrapedTime).getTime() : NaN;
+  if (!Number.isNaN(scraped) && Math.abs(scraped - decoded.getTime()) <= TWEET_TIME_TOLERANCE_MS) {
+    return scrapedTime!;
+  }
+  return decoded.toISOString();
+}
+
 /**
  * Type guards for ID validation
  */
@@ -0,0 +1,66 @@
+/**
+ * URL encoding of search queries and filters, shared by the /buscar page and
+ * the /api/search route so a filtered search can be shared as a link
+ */
+
+import type { SearchAuthorFilter, SearchFilters } from '../types';
+
+/** Query string keys, in Spanish like the site's routes */
+export const SEARCH_PARAMS = {
+  QUERY: 'q',
+  PAGE: 'page',
+  CATEGORY: 'categoria',
+  AUTHOR: 'autor',
+  YEAR: 'anio',
+  MONTH: 'mes',
+  EXAM: 'examen',
+  PODCAST: 'podcast',
+} as const;
+
+const AUTHOR_FILTERS: readonly SearchAuthorFilter[] = ['principal', 'otros-autores'];
+
+function parseInteger(value: string | null, min: number, max: number): number | undefined {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : undefined;
+}
+
+/**
+ * Reads the filters from a query string, ignoring unknown or malformed values
+ */
+export function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const filters: SearchFilters = {};
+
+  const category = params.get(SEARCH_PARAMS.CATEGORY);
+  if (category) filters.category = category;
+
+  const author = params.get(SEARCH_PARAMS.AUTHOR);
+  const authorFilter = AUTHOR_FILTERS.find(value => value === author);
+  if (authorFilter) filters.author = authorFilter;
+
+  const year = parseInteger(params.get(SEARCH_PARAMS.YEAR), 2000, 2100);
+  if (year) filters.year = year;
+
+  const month = parseInteger(params.get(SEARCH_PARAMS.MONTH), 1, 12);
+  if (month) filters.month = month;
+
+  if (params.get(SEARCH_PARAMS.EXAM) === '1') filters.hasExam = true;
+  if (params.get(SEARCH_PARAMS.PODCAST) === '1') filters.hasPodcast = true;
+
+  return filters;
+}
+
+/**
+ * Builds the query string for a search, omitting empty values
+ */
+export function buildSearchParams(query: string, filters: SearchFilters, page = 1): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query) params.set(SEARCH_PARAMS.QUERY, query);
+  if (filters.category) params.set(SEARCH_PARAMS.CATEGORY, filters.category);
+  if (filters.author) params.set(SEARCH_PARAMS.AUTHOR, filters.author);
+  if (filters.year) params.set(SEARCH_PARAMS.YEAR, String(filters.year));
+  if (filters.month) params.set(SEARCH_PARAMS.MONTH, String(filters.month));
+  if (filters.hasExam) params.set(SEARCH_PARAMS.EXAM, '1');
+  if (filters.hasPodcast) params.set(SEARCH_PARAMS.PODCAST, '1');
+  if (page > 1) params.set(SEARCH_PARAMS.PAGE, String(page));
+  return params;
+}
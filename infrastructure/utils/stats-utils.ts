@@ -0,0 +1,64 @@
+/**
+ * Tweet statistics helpers shared by the TweetProvider, the search index and scripts
+ */
+
+import type { StatsSnapshot, TweetStatCounts, TweetStats } from '../types';
+
+/** Suffixes X uses for abbreviated counts, in English and Spanish */
+const STAT_MULTIPLIERS: [RegExp, number][] = [
+  [/(millones|mill\.?|m)$/, 1_000_000],
+  [/(mil|k)$/, 1_000],
+];
+
+/**
+ * Number of a stat as shown by X: "1234", "1,234", "1.234", "1.2K", "45M",
+ * "1,2 mil" or "3,4 M". Values that cannot be parsed count as 0.
+ */
+export function parseStatValue(value: string | number | null | undefined): number {
+  if (typeof value === 'number') return Number.isFinite(value) ? Math.max(0, Math.round(value)) : 0;
+
+  const text = String(value ?? '').toLowerCase().replace(/\s+/g, '');
+  if (!text) return 0;
+
+  for (const [suffix, multiplier] of STAT_MULTIPLIERS) {
+    if (!suffix.test(text)) continue;
+    // Abbreviated values have a decimal part; the last separator is the decimal one
+    const number = text.replace(suffix, '');
+    const decimalIndex = Math.max(number.lastIndexOf(','), number.lastIndexOf('.'));
+    const normalized = decimalIndex === -1
+      ? number
+      : `${number.slice(0, decimalIndex).replace(/[.,]/g, '')}.${number.slice(decimalIndex + 1)}`;
+    const parsed = Number(normalized);
+    return normalized && Number.isFinite(parsed) ? Math.round(parsed * multiplier) : 0;
+  }
+
+  // Full values only use separators for thousands
+  const parsed = Number(text.replace(/[.,]/g, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/** Numeric values of raw scraped stats; missing stats count as 0 */
+export function parseStatCounts(stats: Partial<Record<keyof TweetStatCounts, string>>): TweetStatCounts {
+  return {
+    views: parseStatValue(stats.views),
+    retweets: parseStatValue(stats.retweets),
+    quotetweets: parseStatValue(stats.quotetweets),
+    likes: parseStatValue(stats.likes),
+  };
+}
+
+/** Numeric stats of a tweet, parsed from the raw strings when not stored */
+export function getStatCounts(stats: TweetStats): TweetStatCounts {
+  return stats.counts ?? parseStatCounts(stats);
+}
+
+/** Engagement score of a tweet: likes + retweets + quote tweets */
+export function calculateEngagement(stats: TweetStats): number {
+  const counts = getStatCounts(stats);
+  return counts.retweets + counts.quotetweets + counts.likes;
+}
+
+/** Engagement of a stats snapshot: likes + retweets + bookmarks (quote tweets are not refreshed) */
+export function getSnapshotEngagement(snapshot: StatsSnapshot): number {
+  return snapshot.likes + snapshot.retweets + snapshot.bookmarks;
+}
@@ -0,0 +1,54 @@
+/**
+ * Text utilities shared by pages, route handlers and scripts
+ */
+
+import type { Tweet } from '../types';
+
+/** Average reading speed used to estimate how long a thread takes to read */
+const WORDS_PER_MINUTE = 200;
+
+/**
+ * Number of words in the tweets of a thread
+ */
+export function countWords(thread: Tweet[]): number {
+  return thread.reduce(
+    (count, tweet) => count + tweet.tweet.split(/\s+/).length,
+    0
+  );
+}
+
+/**
+ * Estimates the reading time of a thread in minutes (never less than 1)
+ */
+export function calculateReadingTime(thread: Tweet[]): number {
+  return Math.max(1, Math.ceil(countWords(thread) / WORDS_PER_MINUTE));
+}
+
+/** Longest slug kept in a turra URL; longer summaries are cut at a word */
+const MAX_SLUG_LENGTH = 60;
+
+/**
+ * URL slug for a text: lowercase ASCII words joined by hyphens, cut at a word
+ * boundary to `maxLength`
+ */
+export function slugify(text: string, maxLength: number = MAX_SLUG_LENGTH): string {
+  const slug = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove diacritics
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  if (slug.length <= maxLength) return slug;
+
+  const cut = slug.slice(0, maxLength + 1);
+  const lastHyphen = cut.lastIndexOf('-');
+  return lastHyphen > 0 ? cut.slice(0, lastHyphen) : slug.slice(0, maxLength);
+}
+
+/**
+ * Canonical path of a thread page, `/turra/{threadId}/{slug}`, with the slug
+ * taken from its summary
+ */
+export function getTurraPath(threadId: string, summary: string): string {
+  return `/turra/${threadId}/${slugify(summary) || 'turra'}`;
+}
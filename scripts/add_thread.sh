@@ -23,7 +23,7 @@ deno task enrich
 # echo "Generating metadata images for thread $id"
 # deno task images
 
-echo "Generating algolia index for thread $id"
+echo "Generating search index for thread $id"
 deno task algolia
 
 echo "Generating books for thread $id"
@@ -33,7 +33,7 @@ echo "Enriching books for thread $id"
 deno task book-enrich
 
 echo "Adding thread $id to graph" 
-python ./scripts/create_graph.py 
+deno task graph
 
 echo "Moving metadata to public for thread $id"
 mv -v ./metadata/* ./public/metadata/
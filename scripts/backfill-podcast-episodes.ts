@@ -0,0 +1,199 @@
+/**
+ * Backfills the podcast episode fields in tweets_podcast.json
+ *
+ * For every episode it takes the title and publication date from the thread
+ * summary and first tweet, the description from the opening paragraph of the
+ * transcript (infrastructure/db/podcast/{id}.txt), and the enclosure size and
+ * duration from the audio file (public/podcast/{id}.mp3). Only empty fields
+ * are filled unless --force is given.
+ *
+ * Usage: deno task podcast:backfill [--force] [--dry-run]
+ */
+
+import { join } from "@std/path";
+import {
+  createScriptLogger,
+  getDbPath,
+  getProjectRoot,
+  getScriptDirectory,
+  runWithErrorHandling,
+} from "./libs/common-utils.ts";
+import { createDataAccess } from "./libs/data-access.ts";
+import type {
+  PodcastEpisode,
+  Tweet,
+} from "../infrastructure/types/index.ts";
+import { normalizeId } from "../infrastructure/utils/id-utils.ts";
+import { SITE_URL } from "../infrastructure/constants.ts";
+
+const scriptDir = getScriptDirectory(import.meta.url);
+const logger = createScriptLogger("backfill-podcast-episodes");
+const dataAccess = createDataAccess(scriptDir);
+
+const AUDIO_DIR = join(getProjectRoot(scriptDir), "public/podcast");
+const TRANSCRIPTS_DIR = join(getDbPath(scriptDir), "podcast");
+
+const force = Deno.args.includes("--force");
+const dryRun = Deno.args.includes("--dry-run");
+
+// ============================================================================
+// MP3 DURATION
+// ============================================================================
+
+/** kbps by bitrate index, Layer III */
+const BITRATES_MPEG1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const BITRATES_MPEG2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+/** Hz by sample rate index, keyed by the header's version bits */
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+};
+
+/**
+ * Duration in seconds of an MPEG Layer III file: exact for VBR files with a
+ * Xing/Info header, estimated from the first frame's bitrate otherwise
+ */
+function readMp3Duration(bytes: Uint8Array): number | undefined {
+  let offset = 0;
+
+  // Skip the ID3v2 tag (syncsafe size)
+  if (bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33) {
+    offset = 10 +
+      (((bytes[6]! & 0x7f) << 21) | ((bytes[7]! & 0x7f) << 14) |
+        ((bytes[8]! & 0x7f) << 7) | (bytes[9]! & 0x7f));
+  }
+
+  // First frame sync: 11 set bits
+  while (
+    offset + 4 < bytes.length &&
+    !(bytes[offset] === 0xff && (bytes[offset + 1]! & 0xe0) === 0xe0)
+  ) {
+    offset++;
+  }
+  if (offset + 4 >= bytes.length) return undefined;
+
+  const versionBits = (bytes[offset + 1]! >> 3) & 0x03;
+  const layerBits = (bytes[offset + 1]! >> 1) & 0x03;
+  if (versionBits === 1 || layerBits !== 1) return undefined; // Reserved version or not Layer III
+
+  const isMpeg1 = versionBits === 3;
+  const bitrate = (isMpeg1 ? BITRATES_MPEG1 : BITRATES_MPEG2)[bytes[offset + 2]! >> 4];
+  const sampleRate = SAMPLE_RATES[versionBits]?.[(bytes[offset + 2]! >> 2) & 0x03];
+  if (!bitrate || !sampleRate) return undefined;
+
+  const isMono = bytes[offset + 3]! >> 6 === 3;
+  const samplesPerFrame = isMpeg1 ? 1152 : 576;
+
+  // The Xing/Info header sits right after the side information
+  const xingOffset = offset + 4 + (isMpeg1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17));
+  const tag = new TextDecoder().decode(bytes.subarray(xingOffset, xingOffset + 4));
+  if ((tag === "Xing" || tag === "Info") && (bytes[xingOffset + 7]! & 0x01)) {
+    const frames = new DataView(bytes.buffer, bytes.byteOffset + xingOffset + 8, 4).getUint32(0);
+    return (frames * samplesPerFrame) / sampleRate;
+  }
+
+  return ((bytes.length - offset) * 8) / (bitrate * 1000);
+}
+
+// ============================================================================
+// BACKFILL
+// ============================================================================
+
+async function readOptionalFile(filePath: string): Promise<Uint8Array | null> {
+  try {
+    return await Deno.readFile(filePath);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+/** First non-empty paragraph of the narration script */
+async function readTranscriptIntro(id: string): Promise<string | null> {
+  const bytes = await readOptionalFile(join(TRANSCRIPTS_DIR, `${id}.txt`));
+  if (!bytes) return null;
+  const paragraph = new TextDecoder().decode(bytes)
+    .split(/\n\s*\n/)
+    .map((part) => part.trim())
+    .find((part) => part.length > 0);
+  return paragraph ?? null;
+}
+
+function assign<K extends keyof PodcastEpisode>(
+  episode: PodcastEpisode,
+  key: K,
+  value: PodcastEpisode[K] | undefined,
+): boolean {
+  if (value === undefined || value === "") return false;
+  if (!force && episode[key] !== undefined && episode[key] !== "") return false;
+  if (episode[key] === value) return false;
+  episode[key] = value as PodcastEpisode[K];
+  return true;
+}
+
+async function backfillPodcastEpisodes(): Promise<void> {
+  const [episodes, tweets, summaries] = await Promise.all([
+    dataAccess.getTweetsPodcast(),
+    dataAccess.getTweets(),
+    dataAccess.getTweetsSummary(),
+  ]);
+
+  const threadsById = new Map<string, Tweet[]>();
+  tweets.forEach((thread) => {
+    const id = thread[0] && normalizeId(thread[0].id);
+    if (id && !threadsById.has(id)) threadsById.set(id, thread);
+  });
+  const summariesById = new Map<string, string>();
+  summaries.forEach(({ id, summary }) => {
+    if (!summariesById.has(normalizeId(id))) summariesById.set(normalizeId(id), summary);
+  });
+
+  let updatedEpisodes = 0;
+  for (const episode of episodes) {
+    const id = normalizeId(episode.id);
+    const mainTweet = threadsById.get(id)?.[0];
+    if (!mainTweet) {
+      logger.warn(`Episode ${id} has no thread in tweets.json, skipping`);
+      continue;
+    }
+
+    const summary = summariesById.get(id);
+    const intro = await readTranscriptIntro(id);
+    const audio = await readOptionalFile(join(AUDIO_DIR, `${id}.mp3`));
+    if (!audio) {
+      logger.warn(`No audio file for episode ${id} in ${AUDIO_DIR}`);
+    }
+    const duration = audio ? readMp3Duration(audio) : undefined;
+
+    const changes = [
+      assign(episode, "title", summary),
+      assign(episode, "description", intro ?? summary),
+      assign(episode, "publishedAt", mainTweet.time),
+      assign(episode, "audioUrl", audio ? `${SITE_URL}/podcast/${id}.mp3` : undefined),
+      assign(episode, "size", audio?.length),
+      assign(episode, "duration", duration !== undefined ? Math.round(duration) : undefined),
+    ].filter(Boolean).length;
+
+    if (changes > 0) {
+      updatedEpisodes++;
+      logger.info(`Episode ${id}: ${changes} field(s) filled`);
+    }
+  }
+
+  if (dryRun) {
+    logger.info(`Dry run: ${updatedEpisodes} of ${episodes.length} episodes would change`);
+    return;
+  }
+
+  await dataAccess.saveTweetsPodcast(episodes);
+  logger.info(`Backfilled ${updatedEpisodes} of ${episodes.length} podcast episodes`);
+}
+
+// Run with standardized error handling
+runWithErrorHandling(
+  backfillPodcastEpisodes,
+  logger,
+  "Backfilling podcast episodes",
+);
@@ -0,0 +1,145 @@
+/**
+ * Benchmarks the TweetProvider lookup strategy used during the static build
+ *
+ * Replays the calls one `next build` makes while rendering every turra page
+ * (getThread, getSummaryById, getCategoryById, getExamById, hasPodcast and two
+ * getAllEnrichedTweetData calls per tweet from TweetContent and TurraSidebar)
+ * against the linear scans TweetProvider used before indexing and against
+ * TweetProvider itself, whose constructor builds the Map indexes once.
+ *
+ * Usage: deno task bench:provider [iterations]
+ */
+
+import {
+  createScriptLogger,
+  getScriptDirectory,
+  runWithErrorHandling,
+} from "./libs/common-utils.ts";
+import { createDataAccess } from "./libs/data-access.ts";
+import { TweetProvider } from "../infrastructure/TweetProvider.ts";
+import type { Tweet } from "../infrastructure/types/index.ts";
+import { extractThreadId, normalizeId } from "../infrastructure/utils/id-utils.ts";
+
+const scriptDir = getScriptDirectory(import.meta.url);
+const logger = createScriptLogger("benchmark-tweet-provider");
+const dataAccess = createDataAccess(scriptDir);
+
+/** The TweetProvider methods a turra page calls */
+interface Lookups {
+  getThread(id: string): Tweet[];
+  getSummaryById(id: string): string;
+  getCategoryById(id: string): string[];
+  getExamById(id: string): unknown;
+  hasPodcast(id: string): boolean;
+  getAllEnrichedTweetData(id: string): unknown[];
+}
+
+type Data = Awaited<ReturnType<typeof loadData>>;
+
+async function loadData() {
+  const [tweets, summaries, tweetsMap, enriched, exams, podcasts] = await Promise.all([
+    dataAccess.getTweets(),
+    dataAccess.getTweetsSummary(),
+    dataAccess.getTweetsMap(),
+    dataAccess.getTweetsEnriched(),
+    dataAccess.getTweetsExam(),
+    dataAccess.getTweetsPodcast(),
+  ]);
+  return { tweets, summaries, tweetsMap, enriched, exams, podcasts };
+}
+
+/** The lookups as TweetProvider implemented them before indexing */
+function createLinearLookups(data: Data): Lookups {
+  return {
+    getThread: (id) => {
+      const threadId = extractThreadId(normalizeId(id));
+      return data.tweets.find((thread) =>
+        thread.some((tweet) => extractThreadId(normalizeId(tweet.id)) === threadId)
+      ) || [];
+    },
+    getSummaryById: (id) => {
+      const threadId = extractThreadId(normalizeId(id));
+      return data.summaries.find((s) => normalizeId(s.id) === threadId)?.summary || "";
+    },
+    getCategoryById: (id) => {
+      const threadId = extractThreadId(normalizeId(id));
+      const entry = data.tweetsMap.find((t) => normalizeId(t.id) === threadId);
+      return entry?.categories.split(",").map((c) => c.trim()).filter((c) => c.length > 0) || [];
+    },
+    getExamById: (id) => {
+      const threadId = extractThreadId(normalizeId(id));
+      return data.exams.find((exam) => normalizeId(exam.id) === threadId);
+    },
+    hasPodcast: (id) => {
+      const threadId = extractThreadId(normalizeId(id));
+      return data.podcasts.some((podcast) => normalizeId(podcast.id) === threadId);
+    },
+    getAllEnrichedTweetData: (id) => {
+      const normalizedId = normalizeId(id);
+      return data.enriched.filter((t) => normalizeId(t.id) === normalizedId);
+    },
+  };
+}
+
+/** Renders every turra page the way app/turra/[id]/[slug]/page.tsx queries the provider */
+function renderAllTurraPages(data: Data, lookups: Lookups): number {
+  let calls = 0;
+  for (const thread of data.tweets) {
+    const mainTweet = thread[0];
+    if (!mainTweet) continue;
+
+    const pageThread = lookups.getThread(mainTweet.id);
+    lookups.getSummaryById(mainTweet.id);
+    lookups.getCategoryById(mainTweet.id);
+    lookups.getExamById(mainTweet.id);
+    lookups.hasPodcast(mainTweet.id);
+    calls += 5;
+
+    for (const tweet of pageThread) {
+      lookups.getAllEnrichedTweetData(tweet.id); // TweetContent
+      lookups.getAllEnrichedTweetData(tweet.id); // TurraSidebar
+      calls += 2;
+    }
+  }
+  return calls;
+}
+
+function measure(label: string, iterations: number, run: () => number): number {
+  const start = performance.now();
+  let calls = 0;
+  for (let i = 0; i < iterations; i++) {
+    calls = run();
+  }
+  const elapsed = (performance.now() - start) / iterations;
+  logger.info(`${label}: ${elapsed.toFixed(1)} ms per build (${calls} lookups)`);
+  return elapsed;
+}
+
+async function benchmark(): Promise<void> {
+  const iterations = Number(Deno.args[0]) || 3;
+  const data = await loadData();
+  logger.info(
+    `Benchmarking ${data.tweets.length} threads, ${data.tweets.flat().length} tweets, ` +
+      `${data.enriched.length} enrichments (${iterations} iterations)`,
+  );
+
+  const linear = createLinearLookups(data);
+  const linearMs = measure("Linear scans", iterations, () => renderAllTurraPages(data, linear));
+
+  const indexStart = performance.now();
+  const provider = new TweetProvider();
+  const indexBuildMs = performance.now() - indexStart;
+  logger.info(`TweetProvider construction: ${indexBuildMs.toFixed(1)} ms (once per process)`);
+  const indexedMs = measure("TweetProvider lookups", iterations, () => renderAllTurraPages(data, provider));
+
+  logger.info(
+    `Speedup: ${(linearMs / (indexedMs + indexBuildMs)).toFixed(1)}x including index build`,
+  );
+}
+
+// Run with standardized error handling
+runWithErrorHandling(
+  benchmark,
+  logger,
+  "Benchmarking TweetProvider lookups",
+);
@@ -8,6 +8,8 @@ import {
 import {
     createDataAccess,
     getBooksToEnrich,
+    getBooksWithoutAuthor,
+    mergeBookCitations,
     mergeEnrichedBooks
 } from './libs/data-access.ts';
 import type { BookToEnrich, CurrentBook } from '../infrastructure/types/index.ts';
@@ -19,10 +21,12 @@ const dataAccess = createDataAccess(scriptDir);
 
 async function enrichBooksWithCategories(): Promise<void> {
     const booksToEnrich = await getBooksToEnrich(dataAccess);
+    const booksWithoutAuthor = await getBooksWithoutAuthor(dataAccess, booksToEnrich);
 
     logger.info('Pending books to enrich:', booksToEnrich.length);
+    logger.info('Enriched books without author:', booksWithoutAuthor.length);
 
-    if (booksToEnrich.length > 0) {
+    if (booksToEnrich.length > 0 || booksWithoutAuthor.length > 0) {
         const browser = await createBrowser({ slowMo: 10 });
         const page = await browser.newPage();
 
@@ -34,6 +38,9 @@ async function enrichBooksWithCategories(): Promise<void> {
             for (const book of booksToEnrich) {
                 await enrichBookCategories(page, book);
             }
+            for (const book of booksWithoutAuthor) {
+                await enrichBookAuthor(page, book);
+            }
             logger.info('Goodreads scraping completed for new books');
         } finally {
             await browser.close();
@@ -43,7 +50,7 @@ async function enrichBooksWithCategories(): Promise<void> {
     }
 
     // Always remap categories for ALL books (new + existing)
-    await remapAllBookCategories(booksToEnrich);
+    await remapAllBookCategories([...booksToEnrich, ...booksWithoutAuthor]);
     logger.info('Book enrichment completed successfully');
 }
 
@@ -53,6 +60,7 @@ async function enrichBookCategories(page: Page, book: BookToEnrich): Promise<voi
         return;
     }
     await page.goto(book.url, { waitUntil: 'networkidle2' });
+    await readBookAuthor(page, book);
 
     // Debug: Check what HTML we're getting
     const hasGenresSection = await page.evaluate(() => {
@@ -92,9 +100,32 @@ async function enrichBookCategories(page: Page, book: BookToEnrich): Promise<voi
     }
 }
 
+/** Reads the first contributor of the Goodreads page open in the page as the author */
+async function readBookAuthor(page: Page, book: BookToEnrich): Promise<void> {
+    const author: string = await page.evaluate(() => {
+        const element = document.querySelector('.ContributorLink__name[data-testid="name"]');
+        return element ? (element as HTMLElement).innerText.trim() : '';
+    });
+    if (author) {
+        book.author = author;
+    } else {
+        logger.warn(`Author not found for: ${book.title}`);
+    }
+}
+
+/** Fills the author of a book enriched before authors were recorded */
+async function enrichBookAuthor(page: Page, book: BookToEnrich): Promise<void> {
+    if (!book.url) return;
+    await page.goto(book.url, { waitUntil: 'networkidle2' });
+    await readBookAuthor(page, book);
+}
+
 async function remapAllBookCategories(enrichedBooks: BookToEnrich[]): Promise<void> {
-    const currentBooks = await dataAccess.getBooks();
-    const mergedBooks = mergeEnrichedBooks(currentBooks, enrichedBooks);
+    const [currentBooks, generatedBooks] = await Promise.all([
+        dataAccess.getBooks(),
+        dataAccess.getBooksNotEnriched()
+    ]);
+    const mergedBooks = mergeBookCitations(mergeEnrichedBooks(currentBooks, enrichedBooks), generatedBooks);
 
     // Ensure all books have categories and apply frontend mapping
     const booksWithCategories = mergedBooks.map((book: CurrentBook) => {
@@ -2,9 +2,11 @@ import puppeteer, { Page } from "puppeteer";
 import Tweets from "./../db/tweets_summary.json" with { type: "json" };
 import PDFMerger from "pdf-merger-js";
 import fs from "node:fs";
-import { AUTHORS } from "../infrastructure/constants.js";
-import type { TweetSummary } from "../infrastructure/types/index.js";
+import Authors from "../infrastructure/db/authors.json" with { type: "json" };
+import { buildAuthors } from "../infrastructure/constants.js";
+import type { AuthorProfile, TweetSummary } from "../infrastructure/types/index.js";
 
+const AUTHORS = buildAuthors(Authors as AuthorProfile[]);
 const PUBLIC = "./public";
 const PDFS = "./pdfs";
 const merger = new PDFMerger();
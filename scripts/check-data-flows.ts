@@ -59,9 +59,9 @@ const DATA_FLOWS: FlowDependency[] = [
     type: 'auto'
   },
   {
-    file: 'tweets-db.json',
-    dependencies: ['tweets.json'],
-    description: 'Flattened search index for Algolia',
+    file: 'search_index.json',
+    dependencies: ['tweets.json', 'tweets_summary.json'],
+    description: 'Full-text search index served by /api/search',
     script: 'make-algolia-db.ts',
     type: 'auto'
   },
@@ -99,9 +99,9 @@ const DATA_FLOWS: FlowDependency[] = [
   },
   {
     file: 'processed_graph_data.json',
-    dependencies: ['tweets.json', 'tweets_map.json', 'tweets_summary.json'],
+    dependencies: ['tweets.json', 'tweets_enriched.json', 'tweets_map.json', 'tweets_summary.json'],
     description: 'Aggregated data for graph visualization',
-    script: 'generate-graph-data.py',
+    script: 'create-graph.ts',
     type: 'derived'
   },
   {
@@ -201,11 +201,11 @@ async function validateDataFlow(flow: FlowDependency): Promise<FlowValidation> {
     }
   }
   
-  if (flow.file === 'tweets-db.json' && fileExists) {
-    // tweets-db.json should be smaller than tweets.json but not tiny
+  if (flow.file === 'search_index.json' && fileExists) {
+    // Postings with positions are a few times the text size, not orders of magnitude
     const tweetsCheck = await checkDependency('tweets.json');
-    if (tweetsCheck.exists && tweetsCheck.size! > 0 && mainFileCheck.size! > tweetsCheck.size!) {
-      warnings.push(`${flow.file} is larger than its source tweets.json - this is unusual`);
+    if (tweetsCheck.exists && tweetsCheck.size! > 0 && mainFileCheck.size! > tweetsCheck.size! * 10) {
+      warnings.push(`${flow.file} is over ten times the size of tweets.json - this is unusual`);
     }
   }
   
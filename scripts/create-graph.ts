@@ -0,0 +1,345 @@
+/**
+ * Builds the thread relationship graph (processed_graph_data.json) used by
+ * /grafo-de-turras and the related turras of the sidebar
+ *
+ * One TurraNode per thread, with its stats summed over every tweet and its
+ * related threads from the selected edge sources:
+ * - categories: threads sharing at least --min-shared-categories categories
+ * - embeds: a tweet of one thread quotes a tweet of the other
+ * - links: a tweet of one thread links to the other (x.com status or /turra URL)
+ * - similarity: the TF-IDF vectors of both threads' text are similar
+ *
+ * Edges are undirected, so each one is listed on both nodes. The output only
+ * depends on the data and the options: nodes keep the tweets.json order and
+ * related ids are sorted.
+ *
+ * Usage: deno task graph [--edges=embeds,links,similarity] [--min-shared-categories=2]
+ *        [--similarity-threshold=0.2] [--max-similar=3]
+ */
+
+import {
+  createScriptLogger,
+  getScriptDirectory,
+  runWithErrorHandling,
+} from "./libs/common-utils.ts";
+import { createDataAccess } from "./libs/data-access.ts";
+import type {
+  EnrichedTweetData,
+  Tweet,
+  TurraNode,
+} from "../infrastructure/types/index.ts";
+import {
+  foldText,
+  stemTerm,
+  STOPWORDS,
+} from "../infrastructure/SearchIndex.ts";
+import { normalizeCategoryFormat, normalizeId } from "../infrastructure/utils/id-utils.ts";
+import { getStatCounts } from "../infrastructure/utils/stats-utils.ts";
+
+const scriptDir = getScriptDirectory(import.meta.url);
+const logger = createScriptLogger("create-graph");
+const dataAccess = createDataAccess(scriptDir);
+
+const EDGE_SOURCES = ["categories", "embeds", "links", "similarity"] as const;
+type EdgeSource = typeof EDGE_SOURCES[number];
+
+interface GraphOptions {
+  edges: Set<EdgeSource>;
+  /** Shared categories needed for a category edge */
+  minSharedCategories: number;
+  /** Minimum cosine similarity for a text edge */
+  similarityThreshold: number;
+  /** Text edges kept per thread, most similar first */
+  maxSimilar: number;
+}
+
+const DEFAULT_OPTIONS: GraphOptions = {
+  // Category edges are off by default: big categories link almost every thread
+  edges: new Set(["embeds", "links", "similarity"]),
+  minSharedCategories: 2,
+  similarityThreshold: 0.2,
+  maxSimilar: 3,
+};
+
+function isEdgeSource(value: string): value is EdgeSource {
+  return (EDGE_SOURCES as readonly string[]).includes(value);
+}
+
+function parseNumberFlag(arg: string, name: string): number {
+  const value = Number(arg.slice(name.length + 3));
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`--${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+function parseArgs(args: string[]): GraphOptions {
+  const options: GraphOptions = { ...DEFAULT_OPTIONS, edges: new Set(DEFAULT_OPTIONS.edges) };
+
+  for (const arg of args) {
+    if (arg.startsWith("--edges=")) {
+      const sources = arg.slice("--edges=".length).split(",").map((source) => source.trim()).filter(Boolean);
+      const unknown = sources.filter((source) => !isEdgeSource(source));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown edge source(s): ${unknown.join(", ")}. Use ${EDGE_SOURCES.join(", ")}`);
+      }
+      options.edges = new Set(sources.filter(isEdgeSource));
+    } else if (arg.startsWith("--min-shared-categories=")) {
+      options.minSharedCategories = Math.max(1, parseNumberFlag(arg, "min-shared-categories"));
+    } else if (arg.startsWith("--similarity-threshold=")) {
+      options.similarityThreshold = parseNumberFlag(arg, "similarity-threshold");
+    } else if (arg.startsWith("--max-similar=")) {
+      options.maxSimilar = Math.floor(parseNumberFlag(arg, "max-similar"));
+    } else if (arg !== "--") {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/** Numeric ids compare as numbers; same-length strings compare like them */
+function compareIds(a: string, b: string): number {
+  return a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+class Graph {
+  private edges = new Map<string, Set<string>>();
+
+  constructor(threadIds: string[]) {
+    threadIds.forEach((id) => this.edges.set(id, new Set()));
+  }
+
+  /** Adds an undirected edge between two known, different threads */
+  link(a: string | undefined, b: string | undefined): boolean {
+    if (!a || !b || a === b) return false;
+    const fromA = this.edges.get(a);
+    const fromB = this.edges.get(b);
+    if (!fromA || !fromB || fromA.has(b)) return false;
+    fromA.add(b);
+    fromB.add(a);
+    return true;
+  }
+
+  getRelated(id: string): string[] {
+    return Array.from(this.edges.get(id) ?? []).sort(compareIds);
+  }
+}
+
+/** Thread ids referenced by a text: x.com/twitter.com status URLs and /turra/ URLs */
+function findLinkedIds(text: string | undefined): string[] {
+  if (!text) return [];
+  const pattern = /(?:(?:x|twitter)\.com\/[^/\s]+\/status(?:es)?\/|\/turra\/)(\d+)/g;
+  return Array.from(text.matchAll(pattern), (match) => match[1]!);
+}
+
+function addCategoryEdges(graph: Graph, categoriesById: Map<string, string[]>, threadIds: string[], minShared: number): number {
+  let added = 0;
+  threadIds.forEach((a, index) => {
+    const categoriesA = new Set(categoriesById.get(a) ?? []);
+    if (categoriesA.size === 0) return;
+    for (const b of threadIds.slice(index + 1)) {
+      const shared = (categoriesById.get(b) ?? []).filter((category) => categoriesA.has(category)).length;
+      if (shared >= minShared && graph.link(a, b)) added++;
+    }
+  });
+  return added;
+}
+
+function addEmbedEdges(
+  graph: Graph,
+  threads: Tweet[][],
+  enrichmentsByTweetId: Map<string, EnrichedTweetData[]>,
+  threadIdByTweetId: Map<string, string>,
+): number {
+  let added = 0;
+  for (const thread of threads) {
+    const threadId = thread[0]!.id;
+    for (const tweet of thread) {
+      const embeddedIds = [
+        tweet.metadata?.embed?.id,
+        ...(enrichmentsByTweetId.get(tweet.id) ?? []).map((enrichment) => enrichment.embeddedTweetId),
+      ];
+      for (const embeddedId of embeddedIds) {
+        if (embeddedId && graph.link(threadId, threadIdByTweetId.get(normalizeId(embeddedId)))) added++;
+      }
+    }
+  }
+  return added;
+}
+
+function addLinkEdges(
+  graph: Graph,
+  threads: Tweet[][],
+  enrichmentsByTweetId: Map<string, EnrichedTweetData[]>,
+  threadIdByTweetId: Map<string, string>,
+): number {
+  let added = 0;
+  for (const thread of threads) {
+    const threadId = thread[0]!.id;
+    for (const tweet of thread) {
+      const texts = [
+        tweet.tweet,
+        tweet.metadata?.url,
+        tweet.metadata?.embed?.url,
+        ...(enrichmentsByTweetId.get(tweet.id) ?? []).map((enrichment) => enrichment.url),
+      ];
+      for (const linkedId of texts.flatMap(findLinkedIds)) {
+        if (graph.link(threadId, threadIdByTweetId.get(linkedId))) added++;
+      }
+    }
+  }
+  return added;
+}
+
+/** Stemmed, folded content words of a text, URLs and numbers left out */
+function getTerms(text: string): string[] {
+  const words = foldText(text.replace(/https?:\/\/\S+/g, " ")).match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word) && !/^\d+$/.test(word))
+    .map(stemTerm);
+}
+
+/** Unit-length TF-IDF vector of each document */
+function buildTfIdfVectors(documents: Map<string, string[]>): Map<string, Map<string, number>> {
+  const documentFrequency = new Map<string, number>();
+  documents.forEach((terms) => {
+    new Set(terms).forEach((term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  });
+
+  const vectors = new Map<string, Map<string, number>>();
+  documents.forEach((terms, id) => {
+    const counts = new Map<string, number>();
+    terms.forEach((term) => counts.set(term, (counts.get(term) ?? 0) + 1));
+
+    const vector = new Map<string, number>();
+    counts.forEach((count, term) => {
+      // Terms in a single document cannot relate two threads
+      const df = documentFrequency.get(term) ?? 0;
+      if (df < 2) return;
+      vector.set(term, (count / terms.length) * Math.log(documents.size / df));
+    });
+
+    const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+    if (norm > 0) vector.forEach((weight, term) => vector.set(term, weight / norm));
+    vectors.set(id, vector);
+  });
+  return vectors;
+}
+
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  smaller.forEach((weight, term) => {
+    dot += weight * (larger.get(term) ?? 0);
+  });
+  return dot;
+}
+
+function addSimilarityEdges(graph: Graph, documents: Map<string, string[]>, options: GraphOptions): number {
+  const vectors = buildTfIdfVectors(documents);
+  const ids = Array.from(vectors.keys());
+
+  let added = 0;
+  for (const id of ids) {
+    const vector = vectors.get(id)!;
+    const similar = ids
+      .filter((other) => other !== id)
+      .map((other) => ({ id: other, score: cosineSimilarity(vector, vectors.get(other)!) }))
+      .filter((candidate) => candidate.score >= options.similarityThreshold)
+      .sort((a, b) => b.score - a.score || compareIds(a.id, b.id))
+      .slice(0, options.maxSimilar);
+    similar.forEach((candidate) => {
+      if (graph.link(id, candidate.id)) added++;
+    });
+  }
+  return added;
+}
+
+async function createGraph(): Promise<void> {
+  const options = parseArgs(Deno.args);
+  const [tweets, summaries, tweetsMap, enrichments] = await Promise.all([
+    dataAccess.getTweets(),
+    dataAccess.getTweetsSummary(),
+    dataAccess.getTweetsMap(),
+    dataAccess.getTweetsEnriched(),
+  ]);
+
+  // First entry wins, as in TweetProvider
+  const threads: Tweet[][] = [];
+  const threadIdByTweetId = new Map<string, string>();
+  for (const thread of tweets) {
+    const threadId = thread[0]?.id;
+    if (!threadId || threadIdByTweetId.has(threadId)) continue;
+    threads.push(thread);
+    thread.forEach((tweet) => {
+      if (!threadIdByTweetId.has(tweet.id)) threadIdByTweetId.set(tweet.id, threadId);
+    });
+  }
+  const summariesById = new Map<string, string>();
+  summaries.forEach(({ id, summary }) => {
+    if (!summariesById.has(normalizeId(id))) summariesById.set(normalizeId(id), summary);
+  });
+  const categoriesById = new Map<string, string[]>();
+  tweetsMap.forEach(({ id, categories }) => {
+    if (!categoriesById.has(normalizeId(id))) {
+      categoriesById.set(normalizeId(id), normalizeCategoryFormat(categories));
+    }
+  });
+  const enrichmentsByTweetId = new Map<string, EnrichedTweetData[]>();
+  enrichments.forEach((enrichment) => {
+    const tweetId = normalizeId(enrichment.id);
+    enrichmentsByTweetId.set(tweetId, [...(enrichmentsByTweetId.get(tweetId) ?? []), enrichment]);
+  });
+
+  const threadIds = threads.map((thread) => thread[0]!.id);
+  const graph = new Graph(threadIds);
+  logger.info(`Edge sources: ${Array.from(options.edges).join(", ") || "none"}`);
+
+  if (options.edges.has("embeds")) {
+    logger.info(`${addEmbedEdges(graph, threads, enrichmentsByTweetId, threadIdByTweetId)} embed edge(s)`);
+  }
+  if (options.edges.has("links")) {
+    logger.info(`${addLinkEdges(graph, threads, enrichmentsByTweetId, threadIdByTweetId)} link edge(s)`);
+  }
+  if (options.edges.has("categories")) {
+    const added = addCategoryEdges(graph, categoriesById, threadIds, options.minSharedCategories);
+    logger.info(`${added} category edge(s)`);
+  }
+  if (options.edges.has("similarity")) {
+    const documents = new Map(threads.map((thread) => {
+      const threadId = thread[0]!.id;
+      const text = [summariesById.get(threadId) ?? "", ...thread.map((tweet) => tweet.tweet)].join("\n");
+      return [threadId, getTerms(text)];
+    }));
+    logger.info(`${addSimilarityEdges(graph, documents, options)} similarity edge(s)`);
+  }
+
+  const nodes: TurraNode[] = threads.map((thread) => {
+    const mainTweet = thread[0]!;
+    const sum = (key: "views" | "likes") =>
+      thread.reduce((total, tweet) => total + (tweet.stats ? getStatCounts(tweet.stats)[key] : 0), 0);
+    return {
+      id: mainTweet.id,
+      url: `${mainTweet.author.replace(/\/+$/, "")}/status/${mainTweet.id}`,
+      // Replies and bookmarks are not scraped
+      replies: 0,
+      likes: sum("likes"),
+      bookmarks: 0,
+      views: sum("views"),
+      summary: summariesById.get(mainTweet.id) ?? "",
+      categories: categoriesById.get(mainTweet.id) ?? [],
+      related_threads: graph.getRelated(mainTweet.id),
+    };
+  });
+
+  await dataAccess.saveProcessedGraphData(nodes);
+  logger.info(`Saved ${nodes.length} thread(s) to processed_graph_data.json`);
+}
+
+// Run with standardized error handling
+runWithErrorHandling(
+  createGraph,
+  logger,
+  "Creating thread graph",
+);
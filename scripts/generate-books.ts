@@ -11,6 +11,7 @@ import type {
   BookToEnrich,
   EnrichedTweetData,
 } from "../infrastructure/types/index.ts";
+import { getBookKey } from "../infrastructure/utils/book-utils.ts";
 
 const scriptDir = getScriptDirectory(import.meta.url);
 const logger = createScriptLogger("generate-books");
@@ -20,6 +21,31 @@ interface BookWithTurraId extends EnrichedTweetData {
   turraId: string;
 }
 
+interface AggregatedBook extends BookWithTurraId {
+  goodreadsId: string;
+  turraIds: string[];
+  tweetIds: string[];
+}
+
+/**
+ * One book per Goodreads id: the first citation, with every tweet and thread
+ * that cites the book
+ */
+function aggregateBooks(books: BookWithTurraId[]): AggregatedBook[] {
+  const booksByKey = new Map<string, AggregatedBook>();
+  for (const book of books) {
+    const key = getBookKey(book);
+    const aggregated: AggregatedBook = booksByKey.get(key) ??
+      { ...book, goodreadsId: key, turraIds: [], tweetIds: [] };
+    if (!aggregated.tweetIds.includes(book.id)) aggregated.tweetIds.push(book.id);
+    if (book.turraId && !aggregated.turraIds.includes(book.turraId)) {
+      aggregated.turraIds.push(book.turraId);
+    }
+    booksByKey.set(key, aggregated);
+  }
+  return Array.from(booksByKey.values());
+}
+
 async function generateBooks(): Promise<void> {
   const books = await getBooksFromGoodReads(dataAccess) as BookWithTurraId[];
 
@@ -30,8 +56,13 @@ async function generateBooks(): Promise<void> {
     book.url && book.url.indexOf("/author/") === -1
   );
 
+  const aggregatedBooks = aggregateBooks(filteredBooks);
+  logger.info(
+    `${aggregatedBooks.length} distinct books, ${filteredBooks.length - aggregatedBooks.length} repeated citations merged`,
+  );
+
   await dataAccess.saveBooksNotEnriched(
-    filteredBooks as unknown as BookToEnrich[],
+    aggregatedBooks as unknown as BookToEnrich[],
   );
   logger.info("Books generation completed successfully!");
 }
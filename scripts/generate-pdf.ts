@@ -7,6 +7,7 @@ import sharp from 'sharp';
 import Epub from 'epub-gen';
 import { readFileSync, existsSync, mkdirSync, rmSync } from 'node:fs';
 import { createLogger } from '../infrastructure/logger.js';
+import { DATA_CATEGORY_IDS, getCategoryName } from '../infrastructure/categories.js';
 import type { Tweet, TweetSummary, CategorizedTweet, EnrichedTweetData, JsonContent } from '../infrastructure/types/index.js';
 
 // Initialize logger
@@ -83,11 +84,7 @@ const getEnrichedTweetData = (enrichedTweets: EnrichedTweetData[], id: string):
 };
 
 const formatCategoryTitle = (category: string): string => {
-  return category
-    .replace(/-/g, ' ')
-    .split(' ')
-    .map((word, index) => index === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word.toLowerCase())
-    .join(' ');
+  return getCategoryName(category);
 };
 
 const generateTurraHtml = async (thread: Tweet[], summary: string, categories: string[]): Promise<string> => {
@@ -450,26 +447,7 @@ const generateIndexHtml = (categories: string[], tweetsMap: CategorizedTweet[],
   `;
 };
 
-const ORDERED_CATEGORIES = [
-    "resolución-de-problemas-complejos",
-    "sistemas-complejos",
-    "marketing",
-    "estrategia",
-    "factor-x",
-    "sociología",
-    "gestión-del-talento",
-    "leyes-y-sesgos",
-    "trabajo-en-equipo",
-    "libros",
-    "futurismo-de-frontera",
-    "personotecnia",
-    "orquestación-cognitiva",
-    "gaming",
-    "lectura-de-señales",
-    "el-contexto-manda",
-    "desarrollo-de-habilidades",
-    "otras-turras-del-querer",
-];
+const ORDERED_CATEGORIES = [...DATA_CATEGORY_IDS];
 
 async function generateThreadPDF(browser: Browser, thread: Tweet[], summary: string, tweetCategories: string[], tempDir: string): Promise<string> {
   const mainTweet = thread[0];
@@ -1,34 +1,16 @@
 /**
- * Maps Goodreads genre tags to the 15 frontend book categories.
+ * Maps Goodreads genre tags to the frontend book categories.
  *
- * The frontend (app/biblioteca/page.tsx) recognizes exactly these categories:
- *   Nonfiction, Psychology, History, Business, Self Help, Personal Development,
- *   Technology, Science, Biography, Health, Economics, Education,
- *   Artificial Intelligence, Games, Fiction
+ * The frontend categories are the BOOK_CATEGORIES declared in the category
+ * registry (infrastructure/categories.ts), which also holds their Spanish names.
  *
  * Goodreads provides ~166 unique raw genre tags. This mapping normalizes them
  * into the frontend set so every book is filterable in the UI.
  */
 
-const FRONTEND_CATEGORIES = [
-  "Nonfiction",
-  "Psychology",
-  "History",
-  "Business",
-  "Self Help",
-  "Personal Development",
-  "Technology",
-  "Science",
-  "Biography",
-  "Health",
-  "Economics",
-  "Education",
-  "Artificial Intelligence",
-  "Games",
-  "Fiction",
-] as const;
+import type { BookCategoryId } from "../../infrastructure/categories.ts";
 
-export type FrontendCategory = typeof FRONTEND_CATEGORIES[number];
+export type FrontendCategory = BookCategoryId;
 
 /**
  * Goodreads genre → frontend category(ies).
@@ -140,7 +140,9 @@ export enum DatabaseFiles {
   TWEETS_SUMMARY = 'tweets_summary.json',
   TWEETS_EXAM = 'tweets_exam.json',
   TWEETS_DB = 'tweets-db.json',
+  SEARCH_INDEX = 'search_index.json',
   TWEETS_PODCAST = 'tweets_podcast.json',
+  TWEETS_STATS_HISTORY = 'tweets_stats_history.json',
   BOOKS = 'books.json',
   BOOKS_NOT_ENRICHED = 'books-not-enriched.json',
   TURRAS_CSV = 'turras.csv',
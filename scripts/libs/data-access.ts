@@ -14,9 +14,13 @@ import type {
   BookToEnrich,
   CurrentBook,
   SearchIndexEntry,
+  SerializedSearchIndex,
   PodcastEpisode,
+  AuthorProfile,
+  ThreadStatsHistory,
   TurraNode
 } from '../../infrastructure/types/index.ts';
+import { getBookKey } from '../../infrastructure/utils/book-utils.ts';
 
 // ============================================================================
 // DATA ACCESS LAYER
@@ -78,6 +82,14 @@ export class DataAccess {
     await writeJsonFile(join(this.dbPath, 'tweets-db.json'), db);
   }
 
+  async getSearchIndex(): Promise<SerializedSearchIndex> {
+    return readJsonFile<SerializedSearchIndex>(join(this.dbPath, 'search_index.json'));
+  }
+
+  async saveSearchIndex(index: SerializedSearchIndex): Promise<void> {
+    await writeJsonFile(join(this.dbPath, 'search_index.json'), index);
+  }
+
   async getTweetsPodcast(): Promise<PodcastEpisode[]> {
     return readJsonFile<PodcastEpisode[]>(join(this.dbPath, 'tweets_podcast.json'));
   }
@@ -86,6 +98,18 @@ export class DataAccess {
     await writeJsonFile(join(this.dbPath, 'tweets_podcast.json'), podcast);
   }
 
+  async getAuthors(): Promise<AuthorProfile[]> {
+    return readJsonFile<AuthorProfile[]>(join(this.dbPath, 'authors.json'));
+  }
+
+  async getTweetsStatsHistory(): Promise<ThreadStatsHistory[]> {
+    return readJsonFile<ThreadStatsHistory[]>(join(this.dbPath, 'tweets_stats_history.json'));
+  }
+
+  async saveTweetsStatsHistory(history: ThreadStatsHistory[]): Promise<void> {
+    await writeJsonFile(join(this.dbPath, 'tweets_stats_history.json'), history);
+  }
+
   // Book-related data access
   async getBooks(): Promise<CurrentBook[]> {
     return readJsonFile<CurrentBook[]>(join(this.dbPath, 'books.json'));
@@ -155,7 +179,7 @@ export async function getBooksToEnrich(dataAccess: DataAccess): Promise<BookToEn
   ]);
 
   return booksNotEnriched.filter((book: BookToEnrich) => {
-    const currentBook = currentBooks.find((cb: CurrentBook) => cb.id === book.id);
+    const currentBook = currentBooks.find((cb: CurrentBook) => getBookKey(cb) === getBookKey(book));
     // Include books that:
     // 1. Don't exist in books.json yet (new books)
     // 2. OR exist but have no categories
@@ -163,6 +187,18 @@ export async function getBooksToEnrich(dataAccess: DataAccess): Promise<BookToEn
   });
 }
 
+/**
+ * Gets books in books.json without an author that are not pending enrichment,
+ * so their Goodreads page is visited once to fill it
+ */
+export async function getBooksWithoutAuthor(dataAccess: DataAccess, booksToEnrich: BookToEnrich[]): Promise<CurrentBook[]> {
+  const pendingKeys = new Set(booksToEnrich.map(getBookKey));
+  const currentBooks = await dataAccess.getBooks();
+  return currentBooks.filter((book: CurrentBook) =>
+    !book.author && book.url?.includes('goodreads.com') && !pendingKeys.has(getBookKey(book))
+  );
+}
+
 /**
  * Gets books from GoodReads enrichments
  */
@@ -182,19 +218,36 @@ export async function getBooksFromGoodReads(dataAccess: DataAccess): Promise<Enr
 }
 
 /**
- * Merges current books with enriched books
+ * Merges current books with enriched books, matched by Goodreads id
  */
 export function mergeEnrichedBooks(currentBooks: CurrentBook[], enrichedBooks: BookToEnrich[]): CurrentBook[] {
   // Update existing books
   const updated = currentBooks.map((currentBook: CurrentBook) => {
-    const enrichedBook = enrichedBooks.find((book: BookToEnrich) => book.id === currentBook.id);
+    const enrichedBook = enrichedBooks.find((book: BookToEnrich) => getBookKey(book) === getBookKey(currentBook));
     return enrichedBook ? enrichedBook : currentBook;
   });
 
   // Add new books that don't exist in currentBooks
   const newBooks = enrichedBooks.filter((enrichedBook: BookToEnrich) =>
-    !currentBooks.some((currentBook: CurrentBook) => currentBook.id === enrichedBook.id)
+    !currentBooks.some((currentBook: CurrentBook) => getBookKey(currentBook) === getBookKey(enrichedBook))
   );
 
   return [...updated, ...newBooks];
+}
+
+/**
+ * Copies the citations collected by generate-books onto every current book,
+ * including books that need no enrichment
+ */
+export function mergeBookCitations(currentBooks: CurrentBook[], generatedBooks: BookToEnrich[]): CurrentBook[] {
+  const generatedByKey = new Map(generatedBooks.map((book: BookToEnrich) => [getBookKey(book), book]));
+  return currentBooks.map((book: CurrentBook) => {
+    const generated = generatedByKey.get(getBookKey(book));
+    return {
+      ...book,
+      goodreadsId: getBookKey(book),
+      turraIds: generated?.turraIds ?? book.turraIds ?? (book.turraId ? [book.turraId] : []),
+      tweetIds: generated?.tweetIds ?? book.tweetIds ?? [book.id],
+    };
+  });
 }
\ No newline at end of file
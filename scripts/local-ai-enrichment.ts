@@ -12,6 +12,7 @@ import dotenv from 'dotenv';
 import { getScriptDirectory, createScriptLogger, runWithErrorHandling } from './libs/common-utils.ts';
 import { createDataAccess } from './libs/data-access.ts';
 import type { Tweet, TweetSummary, CategorizedTweet, TweetExam, QuizQuestion } from '../infrastructure/types/index.ts';
+import { DATA_CATEGORY_IDS } from '../infrastructure/categories.ts';
 
 dotenv.config();
 
@@ -23,26 +24,7 @@ const OLLAMA_BASE_URL = 'http://localhost:11434';
 const DEFAULT_MODEL = 'llama3.2';
 const MAX_RETRIES = 2;
 
-const VALID_CATEGORIES = [
-  'resolución-de-problemas-complejos',
-  'sistemas-complejos',
-  'marketing',
-  'estrategia',
-  'factor-x',
-  'sociología',
-  'gestión-del-talento',
-  'leyes-y-sesgos',
-  'trabajo-en-equipo',
-  'libros',
-  'futurismo-de-frontera',
-  'personotecnia',
-  'orquestación-cognitiva',
-  'gaming',
-  'lectura-de-señales',
-  'el-contexto-manda',
-  'desarrollo-de-habilidades',
-  'otras-turras-del-querer',
-] as const;
+const VALID_CATEGORIES = DATA_CATEGORY_IDS;
 
 // ============================================================================
 // CLI
@@ -233,7 +215,7 @@ function validateMapResponse(raw: string, threadId: string): CategorizedTweet {
   const cats = (parsed['categories'] as string)
     .split(',')
     .map((c) => c.trim())
-    .filter((c) => (VALID_CATEGORIES as readonly string[]).includes(c))
+    .filter((c) => VALID_CATEGORIES.includes(c))
     .slice(0, 5);
 
   if (cats.length === 0) {
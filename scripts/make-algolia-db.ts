@@ -1,6 +1,9 @@
 /**
- * Creates a flattened database for Algolia search indexing
- * Converts threaded tweets into individual searchable entries
+ * Builds the local full-text search index
+ * Converts threaded tweets into individual searchable entries (with the
+ * thread's summary, author, categories, engagement and the exam/podcast flags
+ * used as search facets) and writes the inverted index served by /api/search
+ * to infrastructure/db/search_index.json
  */
 
 import {
@@ -9,52 +12,80 @@ import {
   runWithErrorHandling,
 } from "./libs/common-utils.ts";
 import { createDataAccess } from "./libs/data-access.ts";
-import type { SearchIndexEntry, Tweet } from "../infrastructure/types/index.ts";
-import { createCompositeId } from "../infrastructure/utils/id-utils.ts";
+import type { Tweet, TweetExam } from "../infrastructure/types/index.ts";
+import {
+  createSearchIndexEntries,
+  getThreadSearchData,
+  SearchIndex,
+  type ThreadSearchSource,
+} from "../infrastructure/SearchIndex.ts";
+import { fromXtoAuthor } from "../infrastructure/constants.ts";
+import {
+  normalizeCategoryFormat,
+  normalizeId,
+} from "../infrastructure/utils/id-utils.ts";
 
 const scriptDir = getScriptDirectory(import.meta.url);
 const logger = createScriptLogger("make-algolia-db");
 const dataAccess = createDataAccess(scriptDir);
 
-async function createAlgoliaDatabase(): Promise<void> {
-  const tweets = await dataAccess.getTweets();
-  const searchEntries = createSearchIndexEntries(tweets);
+async function createSearchDatabase(): Promise<void> {
+  const [tweets, summaries, tweetsMap, exams, podcasts, authors] = await Promise.all([
+    dataAccess.getTweets(),
+    dataAccess.getTweetsSummary(),
+    dataAccess.getTweetsMap(),
+    dataAccess.getTweetsExam(),
+    dataAccess.getTweetsPodcast(),
+    dataAccess.getAuthors(),
+  ]);
 
-  await dataAccess.saveTweetsDb(searchEntries);
+  // First entry wins, as in TweetProvider
+  const summariesById = new Map<string, string>();
+  summaries.forEach(({ id, summary }) => {
+    if (!summariesById.has(normalizeId(id))) {
+      summariesById.set(normalizeId(id), summary);
+    }
+  });
+  const categoriesById = new Map<string, string[]>();
+  tweetsMap.forEach(({ id, categories }) => {
+    if (!categoriesById.has(normalizeId(id))) {
+      categoriesById.set(normalizeId(id), normalizeCategoryFormat(categories));
+    }
+  });
 
-  logger.info(
-    `Created Algolia database with ${searchEntries.length} searchable entries`,
+  const examsById = new Map<string, TweetExam>();
+  exams.forEach((exam) => {
+    if (!examsById.has(normalizeId(exam.id))) {
+      examsById.set(normalizeId(exam.id), exam);
+    }
+  });
+  const podcastIds = new Set(podcasts.map(({ id }) => normalizeId(id)));
+
+  const source: ThreadSearchSource = {
+    getSummaryById: (id) => summariesById.get(normalizeId(id)) || "",
+    getCategoryById: (id) => categoriesById.get(normalizeId(id)) || [],
+    getExamById: (id) => examsById.get(normalizeId(id)),
+    hasPodcast: (id) => podcastIds.has(normalizeId(id)),
+    getThreadAuthor: (mainTweet) =>
+      fromXtoAuthor(mainTweet.author, mainTweet.authorName, authors),
+  };
+
+  const searchEntries = createSearchIndexEntries(
+    tweets,
+    (mainTweet: Tweet) => getThreadSearchData(mainTweet, source),
   );
-}
+  const searchIndex = SearchIndex.build(searchEntries);
 
-function createSearchIndexEntries(tweets: Tweet[][]): SearchIndexEntry[] {
-  const searchEntries: SearchIndexEntry[] = [];
-
-  tweets.forEach((thread: Tweet[]) => {
-    if (thread.length === 0) return;
-
-    const threadId = thread[0]!.id;
-    const threadTime = thread[0]!.time;
-
-    thread.forEach(({ id, tweet }: Tweet) => {
-      searchEntries.push({
-        objectID: createCompositeId(threadId, id),
-        tweet: tweet,
-        time: threadTime,
-        summary: "",
-        author: "",
-        categories: [],
-        engagement: 0,
-      } as SearchIndexEntry);
-    });
-  });
+  await dataAccess.saveSearchIndex(searchIndex.toJSON());
 
-  return searchEntries;
+  logger.info(
+    `Created search index with ${searchIndex.size} searchable entries`,
+  );
 }
 
 // Run with standardized error handling
 runWithErrorHandling(
-  createAlgoliaDatabase,
+  createSearchDatabase,
   logger,
-  "Creating Algolia search database",
+  "Creating search index",
 );
@@ -0,0 +1,65 @@
+/**
+ * Backfills the numeric stats of every tweet in tweets.json
+ *
+ * X shows abbreviated counts ("1.2K", "45M", "1,2 mil") that used to be stored
+ * only as strings. This adds `stats.counts` with their numeric values, as the
+ * scraper now does, so sorting by engagement does not depend on parsing at
+ * read time. Existing counts are recomputed from the raw strings.
+ *
+ * Usage: deno task stats:migrate [--dry-run]
+ */
+
+import {
+  createScriptLogger,
+  getScriptDirectory,
+  runWithErrorHandling,
+} from "./libs/common-utils.ts";
+import { createDataAccess } from "./libs/data-access.ts";
+import { parseStatCounts } from "../infrastructure/utils/stats-utils.ts";
+
+const scriptDir = getScriptDirectory(import.meta.url);
+const logger = createScriptLogger("migrate-tweet-stats");
+const dataAccess = createDataAccess(scriptDir);
+
+const dryRun = Deno.args.includes("--dry-run");
+
+async function migrateTweetStats(): Promise<void> {
+  const threads = await dataAccess.getTweets();
+
+  let checked = 0;
+  let updated = 0;
+  let abbreviated = 0;
+
+  for (const thread of threads) {
+    for (const tweet of thread) {
+      checked++;
+      if (!tweet.stats) continue;
+
+      const counts = parseStatCounts(tweet.stats);
+      if (JSON.stringify(counts) === JSON.stringify(tweet.stats.counts)) continue;
+
+      updated++;
+      if (Object.values(tweet.stats).some((value) => typeof value === "string" && /[^\d.,\s]/.test(value))) {
+        abbreviated++;
+      }
+      tweet.stats.counts = counts;
+    }
+  }
+
+  logger.info(
+    `${updated} of ${checked} tweets need numeric stats (${abbreviated} with abbreviated values)`,
+  );
+  if (updated === 0 || dryRun) return;
+
+  await dataAccess.saveTweets(threads);
+  logger.info(
+    `Saved numeric stats for ${updated} tweet(s); run 'deno task algolia' and 'deno task graph' to refresh derived data`,
+  );
+}
+
+// Run with standardized error handling
+runWithErrorHandling(
+  migrateTweetStats,
+  logger,
+  "Migrating tweet stats",
+);
@@ -17,6 +17,13 @@ import {
 } from "@puppeteer/browsers";
 import type { Browser, CookieParam, Page } from "puppeteer-core";
 import { TweetMetadataType } from '../infrastructure/types/index.ts';
+import type {
+    StatsSnapshot,
+    ThreadStatsHistory,
+    TweetStatCounts,
+} from '../infrastructure/types/index.ts';
+import { resolveTweetTime } from '../infrastructure/utils/id-utils.ts';
+import { parseStatCounts, parseStatValue } from '../infrastructure/utils/stats-utils.ts';
 
 // Load environment variables
 dotenv.config();
@@ -47,6 +54,38 @@ function saveThreadProgress(
     renameSync(tmpPath, outputFilePath);
 }
 
+// --- Stats history ---
+
+const statsHistoryPath = join(__dirname, "../infrastructure/db/tweets_stats_history.json");
+
+function loadStatsHistory(): ThreadStatsHistory[] {
+    if (!existsSync(statsHistoryPath)) return [];
+    return JSON.parse(readFileSync(statsHistoryPath, "utf-8")) as ThreadStatsHistory[];
+}
+
+/** Adds a snapshot to a thread's history, replacing one taken the same day */
+function appendStatsSnapshot(
+    history: ThreadStatsHistory[],
+    threadId: string,
+    snapshot: StatsSnapshot,
+): void {
+    let entry = history.find((item) => item.id === threadId);
+    if (!entry) {
+        entry = { id: threadId, snapshots: [] };
+        history.push(entry);
+    }
+    entry.snapshots = entry.snapshots
+        .filter((item) => item.date !== snapshot.date)
+        .concat(snapshot)
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function saveStatsHistory(history: ThreadStatsHistory[]): void {
+    const tmpPath = statsHistoryPath + ".tmp";
+    writeFileSync(tmpPath, JSON.stringify(history, null, 4));
+    renameSync(tmpPath, statsHistoryPath);
+}
+
 function loadCompleted(): Set<string> {
     if (!existsSync(completedPath)) return new Set();
     return new Set(JSON.parse(readFileSync(completedPath, "utf-8")) as string[]);
@@ -105,6 +144,7 @@ interface Tweet {
         likes?: string;
         bookmarks?: string;
         views?: string;
+        counts?: TweetStatCounts;
     };
 }
 
@@ -395,6 +435,52 @@ async function setupPage(browser: Browser, cookies: CookieParam[]): Promise<Page
     return page;
 }
 
+/** Raw stats of the tweet open in the page, from the aria-label of its action bar */
+async function scrapeStats(page: Page): Promise<{ [key: string]: string }> {
+    return await page.evaluate(() => {
+        const statsKeyMap: { [key: string]: string } = {
+            likes: "likes",
+            like: "likes",
+            views: "views",
+            view: "views",
+            replies: "replies",
+            reply: "replies",
+            reposts: "retweets",
+            repost: "retweets",
+            bookmarks: "bookmarks",
+            bookmark: "bookmarks",
+        };
+
+        function parseStats(text: string): { [key: string]: string } {
+            const stats: { [key: string]: string } = {};
+            const segments = text.split(",");
+
+            segments.forEach((segment) => {
+                const match = segment.trim().match(/(\d+)\s(\w+)/);
+                if (match) {
+                    const value = match[1];
+                    const key = match[2];
+
+                    if (key && value && statsKeyMap[key]) {
+                        const mappedKey = statsKeyMap[key];
+                        if (mappedKey) {
+                            stats[mappedKey] = value;
+                        }
+                    }
+                }
+            });
+
+            return stats;
+        }
+
+        const statsLabel = document.querySelector(
+            'article[tabindex="-1"][role="article"][data-testid="tweet"] div[role="group"]',
+        )?.getAttribute("aria-label")?.toLowerCase() || "";
+
+        return parseStats(statsLabel);
+    });
+}
+
 async function parseTweet({ page }: { page: Page }): Promise<Tweet> {
     /**
      * Wait for progress bar to disappear — use race with timeout so frame detach doesn't crash
@@ -743,55 +829,20 @@ async function parseTweet({ page }: { page: Page }): Promise<Tweet> {
 
     await new Promise((r) => setTimeout(r, 100));
 
-    const time = await page.evaluate(() => {
+    const scrapedTime = await page.evaluate(() => {
         const timeElement = document.querySelector(
             'article[tabindex="-1"][role="article"][data-testid="tweet"] time',
         ) as HTMLTimeElement | null;
         return timeElement?.dateTime || "";
     });
+    // The <time> element is missing on some layouts and can belong to another
+    // tweet; the id always encodes the real creation time
+    const time = resolveTweetTime(currentTweetId, scrapedTime);
+    if (time !== scrapedTime) {
+        logger.warn(`Tweet ${currentTweetId}: page time "${scrapedTime}" does not match its id, using ${time}`);
+    }
 
-    const stats = await page.evaluate(() => {
-        const statsKeyMap: { [key: string]: string } = {
-            likes: "likes",
-            like: "likes",
-            views: "views",
-            view: "views",
-            replies: "replies",
-            reply: "replies",
-            reposts: "retweets",
-            repost: "retweets",
-            bookmarks: "bookmarks",
-            bookmark: "bookmarks",
-        };
-
-        function parseStats(text: string): { [key: string]: string } {
-            const stats: { [key: string]: string } = {};
-            const segments = text.split(",");
-
-            segments.forEach((segment) => {
-                const match = segment.trim().match(/(\d+)\s(\w+)/);
-                if (match) {
-                    const value = match[1];
-                    const key = match[2];
-
-                    if (key && value && statsKeyMap[key]) {
-                        const mappedKey = statsKeyMap[key];
-                        if (mappedKey) {
-                            stats[mappedKey] = value;
-                        }
-                    }
-                }
-            });
-
-            return stats;
-        }
-
-        const statsLabel = document.querySelector(
-            'article[tabindex="-1"][role="article"][data-testid="tweet"] div[role="group"]',
-        )?.getAttribute("aria-label")?.toLowerCase() || "";
-
-        return parseStats(statsLabel);
-    });
+    const stats = await scrapeStats(page);
 
     const actualTweet = (tweet === metadata?.embed?.tweet) ? "" : tweet;
 
@@ -801,7 +852,8 @@ async function parseTweet({ page }: { page: Page }): Promise<Tweet> {
         id: currentTweetId,
         metadata,
         time,
-        stats,
+        // Raw strings as shown by X, plus their numeric values ("1.2K" -> 1200)
+        stats: { ...stats, counts: parseStatCounts(stats) },
     };
 }
 
@@ -1178,6 +1230,8 @@ async function main() {
     const testMode = testIndex !== -1;
     const fixTweetIndex = args.indexOf("--fix-tweet");
     const fixTweetMode = fixTweetIndex !== -1;
+    const refreshStatsIndex = args.indexOf("--refresh-stats");
+    const refreshStatsMode = refreshStatsIndex !== -1;
 
     // Ensure Chrome is installed
     const buildId = await resolveBuildId(
@@ -1207,7 +1261,7 @@ async function main() {
             headless: false,
             slowMo: 50,
         }
-        : fixTweetMode
+        : fixTweetMode || refreshStatsMode
         ? {
             headless: true,
             slowMo: 100,
@@ -1217,7 +1271,15 @@ async function main() {
             slowMo: Math.floor(Math.random() * 150) + 750,
         };
 
-    logger.info(testMode ? "Launching test mode..." : fixTweetMode ? "Launching fix-tweet mode..." : "Launching...");
+    logger.info(
+        testMode
+            ? "Launching test mode..."
+            : fixTweetMode
+            ? "Launching fix-tweet mode..."
+            : refreshStatsMode
+            ? "Launching refresh-stats mode..."
+            : "Launching...",
+    );
 
     const launchOptions: Record<string, unknown> = {
         ...browserProps,
@@ -1400,6 +1462,58 @@ async function main() {
             if (fixedCount > 0) {
                 logger.info(`Run 'deno task enrich' to regenerate enrichments for fixed tweets`);
             }
+        } else if (refreshStatsMode) {
+            // Only the first tweet of each thread is visited; its stats are
+            // updated in tweets.json and appended to the dated history
+            const tweetsPath = join(__dirname, "../infrastructure/db/tweets.json");
+            const data: Tweet[][] = JSON.parse(readFileSync(tweetsPath, "utf-8"));
+            const history = loadStatsHistory();
+
+            const requestedIds = args.slice(refreshStatsIndex + 1).filter((arg) => !arg.startsWith("--"));
+            const threads = data.filter((thread) =>
+                thread[0] && (requestedIds.length === 0 || requestedIds.includes(thread[0].id))
+            );
+            const date = new Date().toISOString().slice(0, 10);
+            logger.info(`Refreshing stats of ${threads.length} thread(s) for ${date}...`);
+
+            let refreshedCount = 0;
+            for (const thread of threads) {
+                const mainTweet = thread[0]!;
+                try {
+                    await page!.goto(`https://x.com/Recuenco/status/${mainTweet.id}`, { waitUntil: 'networkidle2' });
+                    await page!.waitForSelector('div[data-testid="tweetText"]');
+                    try { await rejectCookies(page!); } catch { /* cookie popup not present */ }
+
+                    const stats = await scrapeStats(page!);
+                    if (Object.keys(stats).length === 0) {
+                        logger.warn(`  No stats found for thread ${mainTweet.id}, skipping`);
+                        continue;
+                    }
+
+                    const rawStats = { ...mainTweet.stats, ...stats };
+                    mainTweet.stats = { ...rawStats, counts: parseStatCounts(rawStats) };
+                    appendStatsSnapshot(history, mainTweet.id, {
+                        date,
+                        views: parseStatValue(stats.views),
+                        likes: parseStatValue(stats.likes),
+                        retweets: parseStatValue(stats.retweets),
+                        bookmarks: parseStatValue(stats.bookmarks),
+                    });
+                    refreshedCount++;
+
+                    // Save after EVERY thread — crash-resilient
+                    saveStatsHistory(history);
+                    const incTmp = tweetsPath + ".tmp";
+                    writeFileSync(incTmp, JSON.stringify(data, null, 4));
+                    renameSync(incTmp, tweetsPath);
+                    logger.info(`[${refreshedCount}/${threads.length}] ${mainTweet.id}: ${JSON.stringify(stats)}`);
+                } catch (error) {
+                    const errMsg = error instanceof Error ? error.message : String(error);
+                    logger.warn(`  Failed to refresh stats of thread ${mainTweet.id}: ${errMsg}`);
+                }
+            }
+
+            logger.info(`Refreshed stats of ${refreshedCount}/${threads.length} thread(s)`);
         } else {
             const tweetsPath = join(__dirname, "../infrastructure/db/tweets.json");
             const outputFilePath = tweetsPath;
@@ -0,0 +1,108 @@
+/**
+ * Runs SearchIndex queries over a small set of threads and checks which
+ * threads and tweets they match
+ *
+ * Run with: deno task test
+ */
+
+import assert from "node:assert/strict";
+import {
+  createSearchIndexEntries,
+  SearchIndex,
+} from "../infrastructure/SearchIndex.ts";
+import type { Tweet } from "../infrastructure/types/index.ts";
+
+const STATS = { views: "0", retweets: "0", quotetweets: "0", likes: "0" };
+
+function createThread(threadId: string, time: string, texts: string[]): Tweet[] {
+  return texts.map((tweet, index) => ({
+    id: index === 0 ? threadId : `${threadId}${index}`,
+    tweet,
+    time,
+    author: "https://x.com/Recuenco",
+    stats: STATS,
+  }));
+}
+
+const SUMMARIES: Record<string, string> = {
+  "100": "Incentivos perversos",
+  "200": "Sistemas complejos",
+};
+
+const index = SearchIndex.build(createSearchIndexEntries(
+  [
+    createThread("100", "2024-01-10T10:00:00.000Z", [
+      "Cuando una organización premia lo que puede contar, la gente aprende a contar.",
+      "Es la ley de Goodhart: la medida deja de medir en cuanto se convierte en objetivo.",
+      "Por eso las métricas de productividad acaban midiendo el teatro.",
+    ]),
+    createThread("200", "2024-02-10T10:00:00.000Z", [
+      "Un sistema complejo no se puede diseñar de arriba abajo.",
+      "Las métricas solo cuentan una parte de la historia.",
+    ]),
+  ],
+  (mainTweet) => ({
+    summary: SUMMARIES[mainTweet.id] ?? "",
+    author: "Javier G. Recuenco",
+    categories: [],
+    engagement: 0,
+    isMainAuthor: true,
+    hasExam: false,
+    hasPodcast: false,
+  }),
+));
+
+function searchThreads(query: string): string[] {
+  return index.search(query).threads.map((thread) => thread.threadId);
+}
+
+Deno.test("query words spread across two tweets match their thread", () => {
+  const { threads } = index.search("goodhart productividad");
+  assert.deepEqual(threads.map((thread) => thread.threadId), ["100"]);
+
+  const [thread] = threads;
+  assert.equal(thread!.matches, 2);
+  assert.deepEqual(
+    thread!.hits.map((hit) => hit.tweetId).sort(),
+    ["1001", "1002"],
+  );
+  assert.ok(thread!.hits.some((hit) => hit.snippet.includes("<em>Goodhart</em>")));
+  assert.ok(thread!.hits.some((hit) => hit.snippet.includes("<em>productividad</em>")));
+});
+
+Deno.test("the summary counts for every tweet of its thread", () => {
+  assert.deepEqual(searchThreads("perversos goodhart"), ["100"]);
+  assert.deepEqual(searchThreads("incentivos goodhart"), ["100"]);
+
+  const [thread] = index.search("incentivos goodhart").threads;
+  assert.equal(thread!.highlightedSummary, "<em>Incentivos</em> perversos");
+  assert.deepEqual(thread!.hits.map((hit) => hit.tweetId), ["1001"]);
+});
+
+Deno.test("a thread matched only by its summary has no tweet hits", () => {
+  const [thread] = index.search("perversos").threads;
+  assert.equal(thread!.threadId, "100");
+  assert.equal(thread!.matches, 0);
+  assert.deepEqual(thread!.hits, []);
+});
+
+Deno.test("every query word still has to appear in the thread", () => {
+  assert.deepEqual(searchThreads("goodhart complejo"), []);
+  assert.deepEqual(searchThreads("métricas").sort(), ["100", "200"]);
+});
+
+Deno.test("quoted phrases match within a single tweet", () => {
+  assert.deepEqual(searchThreads('"ley de goodhart"'), ["100"]);
+  assert.deepEqual(searchThreads('"goodhart productividad"'), []);
+});
+
+Deno.test("an empty query lists the filtered threads with their facets", () => {
+  const { threads, total, facets } = index.search("", { filters: { year: 2024, month: 1 } });
+  assert.deepEqual(threads.map((thread) => thread.threadId), ["100"]);
+  assert.equal(total, 1);
+  assert.deepEqual(threads[0]!.hits, []);
+  assert.deepEqual(facets.months, [{ value: "1", count: 1 }, { value: "2", count: 1 }]);
+
+  assert.deepEqual(searchThreads(""), ["200", "100"]);
+  assert.deepEqual(searchThreads("de la"), []);
+});
@@ -0,0 +1,120 @@
+/**
+ * Runs the JSON-LD builders over the db files and checks what search engines
+ * would read from them
+ *
+ * Run with: deno task test
+ */
+
+import assert from "node:assert/strict";
+import { parseString } from "@fast-csv/parse";
+import {
+  buildBookJsonLd,
+  buildBookListJsonLd,
+  buildDefinedTermJsonLd,
+  buildGlossaryJsonLd,
+  buildQuizJsonLd,
+} from "../infrastructure/structured-data.ts";
+import { buildGlossaryEntries } from "../infrastructure/glossary.ts";
+import { SITE_URL } from "../infrastructure/constants.ts";
+import type { Book, GlossaryTerm, TweetExam } from "../infrastructure/types/index.ts";
+
+type JsonLdNode = Record<string, unknown>;
+
+function readDbFile(name: string): string {
+  return Deno.readTextFileSync(new URL(`../infrastructure/db/${name}`, import.meta.url));
+}
+
+/** glosario.csv rows, read like TweetFacade.getGlossaryTerms does */
+function readGlossaryTerms(): Promise<GlossaryTerm[]> {
+  const terms: GlossaryTerm[] = [];
+  return new Promise((resolve, reject) => {
+    parseString(readDbFile("glosario.csv"), {
+      headers: ["term", "definition", "reference"],
+      ignoreEmpty: true,
+    })
+      .on("data", (row: Partial<GlossaryTerm>) => {
+        if (row.term && row.definition) {
+          terms.push({
+            term: row.term.trim(),
+            definition: row.definition.trim(),
+            reference: row.reference ? row.reference.trim() : "",
+          });
+        }
+      })
+      .on("error", reject)
+      .on("end", () => resolve(terms));
+  });
+}
+
+const exams: TweetExam[] = JSON.parse(readDbFile("tweets_exam.json"));
+const books: Book[] = JSON.parse(readDbFile("books.json"));
+
+Deno.test("quiz answers are 1-based positions in the options", () => {
+  for (const exam of exams) {
+    for (const question of exam.questions) {
+      assert.ok(
+        question.answer >= 1 && question.answer <= question.options.length,
+        `${exam.id}: answer ${question.answer} of ${question.options.length} options`,
+      );
+    }
+  }
+});
+
+Deno.test("quiz JSON-LD accepts the option the exam marks as correct", () => {
+  for (const exam of exams) {
+    const quiz = buildQuizJsonLd(exam, "Resumen", `/turra/${exam.id}`);
+    if (exam.questions.length === 0) {
+      assert.equal(quiz, null);
+      continue;
+    }
+    assert.ok(quiz, `${exam.id} has no quiz`);
+
+    const questions = quiz.hasPart as JsonLdNode[];
+    assert.equal(questions.length, exam.questions.length, `${exam.id} dropped questions`);
+    questions.forEach((question, index) => {
+      const examQuestion = exam.questions[index]!;
+      // TurraExam compares the selected option index with answer - 1
+      const correctIndex = examQuestion.answer - 1;
+      const accepted = question.acceptedAnswer as JsonLdNode;
+      const suggested = question.suggestedAnswer as JsonLdNode[];
+
+      assert.equal(question.text, examQuestion.question);
+      assert.equal(accepted.text, examQuestion.options[correctIndex]);
+      assert.equal(accepted.position, correctIndex);
+      assert.equal(suggested.length, examQuestion.options.length - 1);
+      assert.ok(suggested.every((answer) => answer.position !== correctIndex));
+    });
+  }
+});
+
+Deno.test("glossary JSON-LD has one DefinedTerm per glosario.csv term", async () => {
+  const entries = buildGlossaryEntries(await readGlossaryTerms());
+  assert.ok(entries.length > 0);
+
+  const glossary = buildGlossaryJsonLd(entries);
+  const terms = glossary.hasDefinedTerm as JsonLdNode[];
+  assert.equal(terms.length, entries.length);
+  assert.equal(new Set(terms.map((term) => term["@id"])).size, terms.length, "duplicate term ids");
+
+  for (const entry of entries) {
+    const term = buildDefinedTermJsonLd(entry);
+    assert.equal(term["@type"], "DefinedTerm");
+    assert.equal(term.url, `${SITE_URL}${entry.path}`);
+    assert.ok(term.name, `${entry.slug} has no name`);
+    assert.ok(term.description, `${entry.slug} has no description`);
+  }
+});
+
+Deno.test("library JSON-LD lists every book of books.json with its own page", () => {
+  const list = buildBookListJsonLd(books);
+  const items = list.itemListElement as JsonLdNode[];
+  assert.equal(list.numberOfItems, books.length);
+  assert.deepEqual(items.map((item) => item.position), books.map((_, index) => index + 1));
+
+  const urls = books.map((book) => buildBookJsonLd(book).url);
+  assert.equal(new Set(urls).size, books.length, "books sharing a page");
+  books.forEach((book, index) => {
+    assert.equal(buildBookJsonLd(book).name, book.title);
+    assert.deepEqual((items[index]!.item as JsonLdNode).url, urls[index]);
+  });
+});
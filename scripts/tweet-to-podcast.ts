@@ -11,12 +11,14 @@ import TweetsEnrichements from "../infrastructure/db/tweets_enriched.json" with
 
 import { fileURLToPath } from "node:url";
 import path from "node:path";
-import { AUTHORS } from "../infrastructure/constants.js";
-import type { Tweet, EnrichmentResult, TweetMetadataType } from "../infrastructure/types/index.js";
+import Authors from "../infrastructure/db/authors.json" with { type: "json" };
+import { buildAuthors } from "../infrastructure/constants.js";
+import type { AuthorProfile, Tweet, EnrichmentResult, TweetMetadataType } from "../infrastructure/types/index.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const AUTHORS = buildAuthors(Authors as AuthorProfile[]);
 const openai = new OpenAI(process.env.OPENAI_API_KEY);
 const tweetId: string = process.argv[2];
 
@@ -63,6 +63,21 @@ const SCHEMA_MAPPINGS: SchemaValidation = {
     dataPath: 'infrastructure/db/tweets_exam.json',
     description: 'AI-generated quiz questions'
   },
+  'authors.json': {
+    schemaPath: 'artifacts/db-schemas/authors.schema.json',
+    dataPath: 'infrastructure/db/authors.json',
+    description: 'Author profiles'
+  },
+  'tweets_stats_history.json': {
+    schemaPath: 'artifacts/db-schemas/tweets_stats_history.schema.json',
+    dataPath: 'infrastructure/db/tweets_stats_history.json',
+    description: 'Dated engagement snapshots per thread'
+  },
+  'series.json': {
+    schemaPath: 'artifacts/db-schemas/series.schema.json',
+    dataPath: 'infrastructure/db/series.json',
+    description: 'Multi-part thread series'
+  },
   'processed_graph_data.json': {
     schemaPath: 'artifacts/db-schemas/processed_graph_data.schema.json',
     dataPath: 'infrastructure/db/processed_graph_data.json',
@@ -0,0 +1,95 @@
+/**
+ * Checks every tweet time in tweets.json against the creation time encoded in
+ * its snowflake id
+ *
+ * Scraping sometimes stores the time of another tweet on the page, or none at
+ * all (e.g. thread 1614168029876600833). This reports every tweet whose time
+ * is missing or differs from its id by more than a minute and, with --fix,
+ * replaces it with the decoded time.
+ *
+ * Usage: deno task dates:validate [--fix]
+ */
+
+import {
+  createScriptLogger,
+  getScriptDirectory,
+  runWithErrorHandling,
+} from "./libs/common-utils.ts";
+import { createDataAccess } from "./libs/data-access.ts";
+import {
+  getTweetTimestamp,
+  resolveTweetTime,
+} from "../infrastructure/utils/id-utils.ts";
+
+const scriptDir = getScriptDirectory(import.meta.url);
+const logger = createScriptLogger("validate-tweet-dates");
+const dataAccess = createDataAccess(scriptDir);
+
+const fix = Deno.args.includes("--fix");
+
+/** Human readable gap between two times */
+function formatDrift(ms: number): string {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+async function validateTweetDates(): Promise<void> {
+  const threads = await dataAccess.getTweets();
+
+  let checked = 0;
+  let undecodable = 0;
+  const mismatchedThreads = new Set<string>();
+  let mismatches = 0;
+
+  for (const thread of threads) {
+    const threadId = thread[0]?.id ?? "unknown";
+    for (const tweet of thread) {
+      checked++;
+      if (!getTweetTimestamp(tweet.id)) {
+        undecodable++;
+        continue;
+      }
+
+      const resolved = resolveTweetTime(tweet.id, tweet.time);
+      if (resolved === tweet.time) continue;
+
+      mismatches++;
+      mismatchedThreads.add(threadId);
+      const drift = tweet.time
+        ? formatDrift(new Date(tweet.time).getTime() - new Date(resolved).getTime())
+        : "missing";
+      logger.warn(
+        `Thread ${threadId}, tweet ${tweet.id}: stored "${tweet.time}", id says ${resolved} (${drift})`,
+      );
+      if (fix) tweet.time = resolved;
+    }
+  }
+
+  if (undecodable > 0) {
+    logger.warn(`${undecodable} tweet id(s) are not snowflakes and were skipped`);
+  }
+  logger.info(
+    `${mismatches} of ${checked} tweets in ${mismatchedThreads.size} thread(s) have a wrong time`,
+  );
+
+  if (mismatches === 0) return;
+  if (!fix) {
+    logger.info("Run with --fix to replace them with the time decoded from the id");
+    Deno.exit(1);
+  }
+
+  await dataAccess.saveTweets(threads);
+  logger.info(
+    `Fixed ${mismatches} tweet time(s); run 'deno task algolia' to refresh the search index`,
+  );
+}
+
+// Run with standardized error handling
+runWithErrorHandling(
+  validateTweetDates,
+  logger,
+  "Validating tweet dates",
+);